@@ -0,0 +1,327 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { randomUUID } from 'node:crypto';
+import {
+  BallSnapshot,
+  ClientMessage,
+  DEFAULT_RELAY_PORT,
+  MAX_SHOT_POWER,
+  NetPlayer,
+  ROOM_CODE_LENGTH,
+  ServerMessage
+} from '../src/net/protocol';
+import { isInteger, isNumber, isRecord } from '../src/validation';
+
+/**
+ * Minimal room relay for online rounds.
+ * The server never simulates anything: it hands out room codes, keeps the seat list
+ * and forwards shot inputs so every peer runs the same shot locally. It does keep track
+ * of whose turn it is, from what the shooter reports, so nobody can shoot out of turn.
+ */
+
+const MAX_PLAYERS_PER_ROOM = 4;
+const ROOM_CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I or O, they look like 1 and 0
+
+interface Seat extends NetPlayer {
+  socket: WebSocket | null;
+}
+
+interface ShotInFlight {
+  shotId: number;
+  senderId: string; // Seat that sent the shot and has to report where the balls stopped
+}
+
+interface Room {
+  code: string;
+  hostId: string;
+  seats: Seat[];
+  started: boolean;
+  nextShotId: number;
+  turnIndex: number | null; // Seat allowed to shoot next; null once everyone is in the hole
+  shotInFlight: ShotInFlight | null;
+}
+
+type Session = { room: Room | null; seat: Seat | null };
+
+const rooms = new Map<string, Room>();
+
+function createRoomCode(): string {
+  let code = '';
+  do {
+    code = Array.from({ length: ROOM_CODE_LENGTH }, () =>
+      ROOM_CODE_LETTERS[Math.floor(Math.random() * ROOM_CODE_LETTERS.length)]
+    ).join('');
+  } while (rooms.has(code));
+  return code;
+}
+
+function send(socket: WebSocket | null, message: ServerMessage): void {
+  if (socket && socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcast(room: Room, message: ServerMessage, except?: WebSocket): void {
+  room.seats.forEach(seat => {
+    if (seat.socket !== except) send(seat.socket, message);
+  });
+}
+
+function publicPlayers(room: Room): NetPlayer[] {
+  return room.seats.map(({ id, name, color, connected }) => ({ id, name, color, connected }));
+}
+
+function broadcastLobby(room: Room): void {
+  broadcast(room, { type: 'lobby', players: publicPlayers(room), hostId: room.hostId });
+}
+
+function sanitizeName(name: unknown): string {
+  const trimmed = typeof name === 'string' ? name.trim().slice(0, 16) : '';
+  return trimmed || 'Player';
+}
+
+function sanitizeColor(color: unknown): number {
+  return typeof color === 'number' && Number.isInteger(color) ? color & 0xffffff : 0xffffff;
+}
+
+function isIndex(value: unknown): value is number {
+  return isInteger(value) && value >= 0;
+}
+
+function isNumberTuple(value: unknown, length: number): boolean {
+  return Array.isArray(value) && value.length === length && value.every(isNumber);
+}
+
+function parseBallSnapshot(value: unknown): BallSnapshot | null {
+  if (!isRecord(value) || !isIndex(value.playerIndex) || !isNumberTuple(value.position, 3) || typeof value.holed !== 'boolean') {
+    return null;
+  }
+  const [x, y, z] = value.position as number[];
+  return { playerIndex: value.playerIndex, position: [x, y, z], holed: value.holed };
+}
+
+/**
+ * The message if it's one the relay knows with every field of the right type, or null.
+ * Only the known fields are copied, so nothing else gets passed on to other players.
+ */
+function parseClientMessage(value: unknown): ClientMessage | null {
+  if (!isRecord(value)) return null;
+
+  switch (value.type) {
+    case 'create':
+      if (typeof value.name !== 'string' || !isNumber(value.color)) return null;
+      return { type: 'create', name: value.name, color: value.color };
+
+    case 'join':
+      if (typeof value.roomCode !== 'string' || typeof value.name !== 'string' || !isNumber(value.color)) return null;
+      return { type: 'join', roomCode: value.roomCode, name: value.name, color: value.color };
+
+    case 'start':
+      if (value.order !== 'rotation' && value.order !== 'farthest') return null;
+      return { type: 'start', order: value.order };
+
+    case 'shot': {
+      if (!isIndex(value.playerIndex) || !isNumberTuple(value.direction, 2) || !isNumber(value.courseTime)) return null;
+      if (!isNumber(value.power) || value.power <= 0 || value.power > MAX_SHOT_POWER) return null;
+      const [x, z] = value.direction as number[];
+      return { type: 'shot', playerIndex: value.playerIndex, direction: [x, z], power: value.power, courseTime: value.courseTime };
+    }
+
+    case 'rest': {
+      if (!isIndex(value.shotId) || !Array.isArray(value.balls)) return null;
+      if (value.nextPlayerIndex !== null && !isIndex(value.nextPlayerIndex)) return null;
+      const balls = value.balls.map(parseBallSnapshot);
+      if (balls.some(ball => ball === null)) return null;
+      return { type: 'rest', shotId: value.shotId, balls: balls as BallSnapshot[], nextPlayerIndex: value.nextPlayerIndex };
+    }
+
+    case 'advance':
+      return { type: 'advance' };
+  }
+  return null;
+}
+
+/**
+ * Whether this seat may play for the given one: its own, or for the host, one whose owner dropped out
+ */
+function canPlayFor(room: Room, seat: Seat, playerIndex: number): boolean {
+  const shooter = room.seats[playerIndex];
+  return shooter === seat || (shooter !== undefined && !shooter.connected && seat.id === room.hostId);
+}
+
+function handleMessage(socket: WebSocket, message: ClientMessage, session: Session): void {
+  const { room, seat } = session;
+
+  switch (message.type) {
+    case 'create': {
+      if (room) return send(socket, { type: 'error', message: 'Already in a room' });
+
+      const newSeat: Seat = { id: randomUUID(), name: sanitizeName(message.name), color: sanitizeColor(message.color), connected: true, socket };
+      const newRoom: Room = {
+        code: createRoomCode(),
+        hostId: newSeat.id,
+        seats: [newSeat],
+        started: false,
+        nextShotId: 1,
+        turnIndex: 0,
+        shotInFlight: null
+      };
+      rooms.set(newRoom.code, newRoom);
+      session.room = newRoom;
+      session.seat = newSeat;
+
+      console.log(`🏠 Room ${newRoom.code} created by ${newSeat.name}`);
+      send(socket, { type: 'joined', roomCode: newRoom.code, playerId: newSeat.id });
+      broadcastLobby(newRoom);
+      break;
+    }
+
+    case 'join': {
+      if (room) return send(socket, { type: 'error', message: 'Already in a room' });
+
+      const target = rooms.get(message.roomCode.toUpperCase());
+      if (!target) return send(socket, { type: 'error', message: `Room ${message.roomCode} not found` });
+      if (target.started) return send(socket, { type: 'error', message: 'That round has already started' });
+      if (target.seats.length >= MAX_PLAYERS_PER_ROOM) return send(socket, { type: 'error', message: 'Room is full' });
+
+      const newSeat: Seat = { id: randomUUID(), name: sanitizeName(message.name), color: sanitizeColor(message.color), connected: true, socket };
+      target.seats.push(newSeat);
+      session.room = target;
+      session.seat = newSeat;
+
+      console.log(`👋 ${newSeat.name} joined room ${target.code}`);
+      send(socket, { type: 'joined', roomCode: target.code, playerId: newSeat.id });
+      broadcastLobby(target);
+      break;
+    }
+
+    case 'start': {
+      if (!room || !seat) return;
+      if (seat.id !== room.hostId) return send(socket, { type: 'error', message: 'Only the host can start the round' });
+      if (room.started) return;
+
+      room.started = true;
+      room.turnIndex = 0;
+      console.log(`⛳ Room ${room.code} started with ${room.seats.length} players`);
+      broadcast(room, { type: 'started', players: publicPlayers(room), order: message.order });
+      break;
+    }
+
+    case 'shot': {
+      if (!room || !seat || !room.started) return;
+
+      // Players shoot for themselves; the host also plays seats whose owner dropped out
+      if (!canPlayFor(room, seat, message.playerIndex)) return send(socket, { type: 'error', message: 'Not your ball' });
+      if (room.shotInFlight) return send(socket, { type: 'error', message: 'Wait for the balls to stop' });
+      if (message.playerIndex !== room.turnIndex) return send(socket, { type: 'error', message: 'Not your turn' });
+
+      const shotId = room.nextShotId++;
+      room.shotInFlight = { shotId, senderId: seat.id };
+
+      // Echo to everyone, the sender included, so all peers apply shots in the same order
+      broadcast(room, {
+        type: 'shot',
+        shotId,
+        playerIndex: message.playerIndex,
+        direction: message.direction,
+        power: message.power,
+        courseTime: message.courseTime
+      });
+      break;
+    }
+
+    case 'rest': {
+      if (!room || !seat || !room.started) return;
+
+      // Only the machine that played the shot reports where it ended, or the host if that player left
+      const shot = room.shotInFlight;
+      if (!shot || shot.shotId !== message.shotId) return send(socket, { type: 'error', message: 'No such shot in play' });
+      const sender = room.seats.find(s => s.id === shot.senderId);
+      if (seat.id !== shot.senderId && !(sender && !sender.connected && seat.id === room.hostId)) {
+        return send(socket, { type: 'error', message: 'Not your shot' });
+      }
+
+      const seatCount = room.seats.length;
+      if (message.balls.some(ball => ball.playerIndex >= seatCount) || (message.nextPlayerIndex ?? 0) >= seatCount) {
+        return send(socket, { type: 'error', message: 'No such player' });
+      }
+
+      room.shotInFlight = null;
+      room.turnIndex = message.nextPlayerIndex;
+      broadcast(room, { type: 'rest', shotId: message.shotId, balls: message.balls }, socket);
+      break;
+    }
+
+    case 'advance': {
+      if (!room || !seat || seat.id !== room.hostId) return;
+      if (room.shotInFlight) return send(socket, { type: 'error', message: 'Wait for the balls to stop' });
+
+      // Every hole tees off with the first seat
+      room.turnIndex = 0;
+      broadcast(room, { type: 'advance' });
+      break;
+    }
+  }
+}
+
+function handleDisconnect(session: Session): void {
+  const { room, seat } = session;
+  if (!room || !seat) return;
+
+  const playerIndex = room.seats.indexOf(seat);
+  console.log(`👋 ${seat.name} left room ${room.code}`);
+
+  if (room.started) {
+    // Keep the seat so player indices stay stable mid-round
+    seat.connected = false;
+    seat.socket = null;
+  } else {
+    room.seats.splice(playerIndex, 1);
+  }
+
+  const remaining = room.seats.filter(s => s.connected);
+  if (remaining.length === 0) {
+    rooms.delete(room.code);
+    console.log(`🗑️ Room ${room.code} closed`);
+    return;
+  }
+
+  if (room.hostId === seat.id) {
+    room.hostId = remaining[0].id;
+  }
+
+  if (room.started) {
+    broadcast(room, { type: 'left', playerIndex, hostId: room.hostId });
+  } else {
+    broadcastLobby(room);
+  }
+}
+
+const port = Number(process.env.PORT) || DEFAULT_RELAY_PORT;
+const server = new WebSocketServer({ port });
+
+server.on('connection', (socket) => {
+  const session: Session = { room: null, seat: null };
+
+  socket.on('message', (data) => {
+    let message: ClientMessage | null;
+    try {
+      message = parseClientMessage(JSON.parse(data.toString()));
+    } catch {
+      message = null;
+    }
+    if (!message) return send(socket, { type: 'error', message: 'Malformed message' });
+
+    // One bad message must not take down every other room with it
+    try {
+      handleMessage(socket, message, session);
+    } catch (error) {
+      console.error('❌ Failed to handle message:', error);
+      send(socket, { type: 'error', message: 'Relay error' });
+    }
+  });
+
+  socket.on('close', () => handleDisconnect(session));
+  socket.on('error', (error) => console.warn('⚠️ Socket error:', error.message));
+});
+
+console.log(`🛰️ Minigolf relay listening on ws://localhost:${port}`);
@@ -0,0 +1,26 @@
+import { readFileSync } from 'node:fs';
+import { parseLevelData } from '../src/levels/LevelData';
+import { simulateShot } from '../src/simulation/ShotSimulator';
+
+/**
+ * Play one shot on a level file without a browser and print where the ball ended up.
+ *
+ *   npm run simulate -- src/levels/data/level1.json 0 -1 8
+ *
+ * An optional fifth argument sets the course clock (seconds), which decides where moving obstacles are.
+ */
+const [levelPath, dirX, dirZ, power, courseTime] = process.argv.slice(2);
+
+if (!levelPath || dirX === undefined || dirZ === undefined || power === undefined) {
+  console.error('Usage: npm run simulate -- <level.json> <directionX> <directionZ> <power> [courseTime]');
+  process.exit(1);
+}
+
+const level = parseLevelData(JSON.parse(readFileSync(levelPath, 'utf8')), levelPath);
+const result = simulateShot(level, {
+  direction: [Number(dirX), 0, Number(dirZ)],
+  power: Number(power),
+  courseTime: courseTime === undefined ? undefined : Number(courseTime)
+});
+
+console.log(JSON.stringify(result, null, 2));
@@ -1,5 +1,13 @@
 import * as THREE from 'three';
 import { Ball } from './Ball';
+import { TrajectoryPreview } from './aiming/TrajectoryPreview';
+import { BALL_RADIUS } from './simulation/BallPhysics';
+import { MAX_SHOT_POWER } from './net/protocol';
+import { GameEvents } from './game/GameEvents';
+
+// How far from the ball's outline a press still grabs it, in CSS pixels; fingers need more slack
+const GRAB_MARGIN_MOUSE = 12;
+const GRAB_MARGIN_TOUCH = 32;
 
 export class BallControls {
   private camera: THREE.Camera;
@@ -8,42 +16,60 @@ export class BallControls {
   private scene: THREE.Scene;
   
   private isAiming: boolean = false;
+  private aimPointerId: number | null = null;
+  private enabled: boolean = true;
   private aimStartPosition: THREE.Vector2 = new THREE.Vector2();
   private aimEndPosition: THREE.Vector2 = new THREE.Vector2();
   private aimLine: THREE.Line | null = null;
   private powerIndicator: THREE.Mesh | null = null;
+  private trajectoryPreview: TrajectoryPreview | null = null;
+  private aimDirection: THREE.Vector3 | null = null; // Shot line currently drawn, if any
+  private aimPower: number = 0;
   
-  private maxPower: number = 15;
+  private maxPower: number = MAX_SHOT_POWER;
   private minPower: number = 1;
+  private dragSensitivity: number = 1;
+  private invertDrag: boolean = false;
+
+  // Aim start and end go out here, e.g. for the camera to stay still during a drag
+  private events: GameEvents;
+
+  // Replaces hitting the ball directly, e.g. to send the shot over the network first
+  private shotHandler?: (direction: THREE.Vector3, power: number) => void;
 
-  // Callbacks for aiming events
-  private onAimingStart?: () => void;
-  private onAimingEnd?: () => void;
+  // Keep the bound handlers so dispose() can actually remove them
+  private readonly handlePointerDown = (event: PointerEvent) => this.onPointerDown(event);
+  private readonly handlePointerMove = (event: PointerEvent) => this.onPointerMove(event);
+  private readonly handlePointerUp = (event: PointerEvent) => this.onPointerUp(event);
+  private readonly handlePointerCancel = (event: PointerEvent) => this.onPointerCancel(event);
+  private readonly handleContextMenu = (event: Event) => event.preventDefault();
 
-  constructor(camera: THREE.Camera, domElement: HTMLElement, ball: Ball, scene: THREE.Scene, onAimingStart?: () => void, onAimingEnd?: () => void) {
+  constructor(camera: THREE.Camera, domElement: HTMLElement, ball: Ball, scene: THREE.Scene, events: GameEvents) {
     this.camera = camera;
     this.domElement = domElement;
     this.ball = ball;
     this.scene = scene;
-    this.onAimingStart = onAimingStart;
-    this.onAimingEnd = onAimingEnd;
+    this.events = events;
     
     this.setupEventListeners();
     this.createAimingIndicators();
   }
 
   private setupEventListeners(): void {
-    this.domElement.addEventListener('mousedown', this.onMouseDown.bind(this));
-    this.domElement.addEventListener('mousemove', this.onMouseMove.bind(this));
-    this.domElement.addEventListener('mouseup', this.onMouseUp.bind(this));
+    // Capture phase so a press on the ball is claimed before the camera controls see it
+    this.domElement.addEventListener('pointerdown', this.handlePointerDown, { capture: true });
+    this.domElement.addEventListener('pointermove', this.handlePointerMove);
+    this.domElement.addEventListener('pointerup', this.handlePointerUp);
+    this.domElement.addEventListener('pointercancel', this.handlePointerCancel);
     
     // Prevent context menu on right click
-    this.domElement.addEventListener('contextmenu', (e) => e.preventDefault());
+    this.domElement.addEventListener('contextmenu', this.handleContextMenu);
   }
 
   private createAimingIndicators(): void {
-    // Create aim line
+    // Create aim line; its two points are moved in place while aiming
     const aimGeometry = new THREE.BufferGeometry();
+    aimGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(6), 3));
     const aimMaterial = new THREE.LineBasicMaterial({ 
       color: 0xff0000, 
       linewidth: 3,
@@ -68,73 +94,242 @@ export class BallControls {
     this.scene.add(this.powerIndicator);
   }
 
-  private onMouseDown(event: MouseEvent): void {
-    if (event.button !== 0 || this.ball.isInMotion()) return; // Only left click and ball must be stationary
-    
+  private onPointerDown(event: PointerEvent): void {
+    // A second finger while aiming means the player wants the camera instead
+    if (this.isAiming && event.pointerId !== this.aimPointerId) {
+      this.cancelAiming();
+      return;
+    }
+
+    // Only the primary button or finger, and only on a stationary ball
+    if (!this.enabled || !event.isPrimary || event.button !== 0 || this.ball.isInMotion() || !this.ball.isInPlay()) return;
+
+    // Presses away from the ball are left to the camera controls
+    if (!this.isOverBall(event)) return;
+    event.stopImmediatePropagation();
+
     this.isAiming = true;
-    this.aimStartPosition.set(
-      (event.clientX / window.innerWidth) * 2 - 1,
-      -(event.clientY / window.innerHeight) * 2 + 1
-    );
+    this.aimPointerId = event.pointerId;
+    this.domElement.setPointerCapture(event.pointerId);
+    this.toNormalizedPosition(event, this.aimStartPosition);
+    this.aimEndPosition.copy(this.aimStartPosition);
     
-    // Disable camera controls while aiming
-    if (this.onAimingStart) {
-      this.onAimingStart();
-    }
+    this.events.emit('aimStarted', { ball: this.ball });
     
     console.log('🎯 Started aiming');
   }
 
-  private onMouseMove(event: MouseEvent): void {
-    if (!this.isAiming) return;
-    
-    this.aimEndPosition.set(
-      (event.clientX / window.innerWidth) * 2 - 1,
-      -(event.clientY / window.innerHeight) * 2 + 1
-    );
+  private onPointerMove(event: PointerEvent): void {
+    if (!this.isAiming || event.pointerId !== this.aimPointerId) return;
     
+    this.toNormalizedPosition(event, this.aimEndPosition);
     this.updateAimingVisuals();
   }
 
-  private onMouseUp(event: MouseEvent): void {
-    if (!this.isAiming || event.button !== 0) return;
+  private onPointerUp(event: PointerEvent): void {
+    if (!this.isAiming || event.pointerId !== this.aimPointerId) return;
     
-    this.isAiming = false;
-    this.hideAimingVisuals();
-    
-    // Re-enable camera controls
-    if (this.onAimingEnd) {
-      this.onAimingEnd();
-    }
+    this.toNormalizedPosition(event, this.aimEndPosition);
+    this.endAiming();
     
     // Calculate direction and power
     const { direction, power } = this.calculateShotParameters();
     
     if (power > 0.1) { // Minimum power threshold
+      this.fire(direction, power);
+    }
+  }
+
+  /**
+   * Take the shot, through the shot handler when one is set.
+   * Shared by every input scheme so they all shoot the same way.
+   */
+  public fire(direction: THREE.Vector3, power: number): void {
+    if (this.shotHandler) {
+      this.shotHandler(direction, power);
+    } else {
       this.ball.hit(direction, power);
-      console.log(`⛳ Shot fired! Power: ${power.toFixed(2)}, Direction: (${direction.x.toFixed(2)}, ${direction.z.toFixed(2)})`);
     }
+    console.log(`⛳ Shot fired! Power: ${power.toFixed(2)}, Direction: (${direction.x.toFixed(2)}, ${direction.z.toFixed(2)})`);
+  }
+
+  /**
+   * Whether a new aim can start: controls enabled, ball resting on the course and no drag in progress
+   */
+  public canAim(): boolean {
+    return this.enabled && !this.isAiming && !this.ball.isInMotion() && this.ball.isInPlay();
+  }
+
+  public getBall(): Ball {
+    return this.ball;
+  }
+
+  public getMaxPower(): number {
+    return this.maxPower;
+  }
+
+  public getMinPower(): number {
+    return this.minPower;
+  }
+
+  /**
+   * How much power a drag gives, and whether dragging points the shot instead of pulling back
+   */
+  public setDragSettings(sensitivity: number, invert: boolean): void {
+    this.dragSensitivity = sensitivity;
+    this.invertDrag = invert;
+  }
+
+  private onPointerCancel(event: PointerEvent): void {
+    if (event.pointerId === this.aimPointerId) {
+      this.cancelAiming();
+    }
+  }
+
+  /**
+   * Drop the current aim without shooting
+   */
+  private cancelAiming(): void {
+    if (!this.isAiming) return;
+    this.endAiming();
+    console.log('✋ Aiming cancelled');
+  }
+
+  private endAiming(): void {
+    if (this.aimPointerId !== null && this.domElement.hasPointerCapture(this.aimPointerId)) {
+      this.domElement.releasePointerCapture(this.aimPointerId);
+    }
+    this.isAiming = false;
+    this.aimPointerId = null;
+    this.hideAimingVisuals();
+
+    this.events.emit('aimEnded', { ball: this.ball });
+  }
+
+  /**
+   * Pointer position in normalized device coordinates of the canvas, wherever it sits on the page
+   */
+  private toNormalizedPosition(event: PointerEvent, target: THREE.Vector2): THREE.Vector2 {
+    const rect = this.domElement.getBoundingClientRect();
+    return target.set(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+  }
+
+  /**
+   * Whether the press landed on the ball as drawn on screen, with some slack for fingers
+   */
+  private isOverBall(event: PointerEvent): boolean {
+    const rect = this.domElement.getBoundingClientRect();
+    const toScreen = (point: THREE.Vector3): THREE.Vector2 => {
+      const ndc = point.project(this.camera);
+      return new THREE.Vector2((ndc.x + 1) / 2 * rect.width, (1 - ndc.y) / 2 * rect.height);
+    };
+
+    // On-screen radius of the ball, measured along the camera's right axis
+    const center = this.ball.getMesh().position.clone();
+    const right = new THREE.Vector3().setFromMatrixColumn(this.camera.matrixWorld, 0).multiplyScalar(BALL_RADIUS);
+    const centerOnScreen = toScreen(center.clone());
+    const radiusOnScreen = centerOnScreen.distanceTo(toScreen(center.add(right)));
+
+    const margin = event.pointerType === 'touch' ? GRAB_MARGIN_TOUCH : GRAB_MARGIN_MOUSE;
+    const press = new THREE.Vector2(event.clientX - rect.left, event.clientY - rect.top);
+    return press.distanceTo(centerOnScreen) <= radiusOnScreen + margin;
+  }
+
+  /**
+   * Per-frame refresh of a drag in progress, so the preview keeps up with moving obstacles
+   * while the pointer holds still
+   */
+  public update(): void {
+    if (this.isAiming) {
+      this.updateAimingVisuals();
+    }
+  }
+
+  /**
+   * Optional aiming aid that draws where the shot will go; the controls take ownership of it
+   */
+  public setTrajectoryPreview(preview: TrajectoryPreview | null): void {
+    this.trajectoryPreview?.dispose();
+    this.trajectoryPreview = preview;
+  }
+
+  public setShotHandler(handler: (direction: THREE.Vector3, power: number) => void): void {
+    this.shotHandler = handler;
+  }
+
+  /**
+   * Block new shots, e.g. while other balls are still rolling
+   */
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) this.cancelAiming();
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Aim through another camera, e.g. when the view switches to top-down
+   */
+  public setCamera(camera: THREE.Camera): void {
+    this.camera = camera;
+  }
+
+  /**
+   * Direction of the shot being lined up, or null when nothing is being aimed
+   */
+  public getAimDirection(): THREE.Vector3 | null {
+    return this.aimDirection?.clone() ?? null;
+  }
+
+  /**
+   * Power of the shot being lined up, 0 when nothing is being aimed
+   */
+  public getAimPower(): number {
+    return this.aimPower;
+  }
+
+  /**
+   * Hand the controls over to another ball, e.g. when the turn passes
+   */
+  public setBall(ball: Ball): void {
+    this.cancelAiming();
+    this.ball = ball;
   }
 
   private updateAimingVisuals(): void {
-    const ballPosition = this.ball.getPosition();
     const { direction, power } = this.calculateShotParameters();
     
     if (power < 0.1) {
       this.hideAimingVisuals();
       return;
     }
+
+    this.showAim(direction, power);
+  }
+
+  /**
+   * Draw the aim line, power arrow and trajectory preview for a shot
+   */
+  public showAim(direction: THREE.Vector3, power: number): void {
+    const ballPosition = this.ball.getPosition();
+    this.aimDirection = direction.clone();
+    this.aimPower = power;
     
     // Update aim line
     const lineLength = Math.min(power / this.maxPower * 3, 3); // Max 3 units long
     const lineEnd = ballPosition.clone().add(direction.clone().multiplyScalar(lineLength));
     
-    const positions = new Float32Array([
-      ballPosition.x, ballPosition.y + 0.05, ballPosition.z,
-      lineEnd.x, lineEnd.y + 0.05, lineEnd.z
-    ]);
-    
-    this.aimLine!.geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const geometry = this.aimLine!.geometry;
+    const positions = geometry.getAttribute('position') as THREE.BufferAttribute;
+    positions.setXYZ(0, ballPosition.x, ballPosition.y + 0.05, ballPosition.z);
+    positions.setXYZ(1, lineEnd.x, lineEnd.y + 0.05, lineEnd.z);
+    positions.needsUpdate = true;
+    geometry.computeBoundingSphere(); // Keeps the line from being culled where it used to be
     this.aimLine!.visible = true;
     
     // Update power indicator (arrow)
@@ -147,11 +342,27 @@ export class BallControls {
     const scale = Math.min(power / this.maxPower * 2 + 0.5, 2);
     this.powerIndicator!.scale.setScalar(scale);
     this.powerIndicator!.visible = true;
+
+    this.trajectoryPreview?.update(ballPosition, direction, power);
   }
 
   private calculateShotParameters(): { direction: THREE.Vector3, power: number } {
     // Convert screen coordinates to world coordinates
     const raycaster = new THREE.Raycaster();
+
+    // An orthographic view casts every ray the same way, so compare where they meet the green
+    if (this.camera instanceof THREE.OrthographicCamera) {
+      const green = new THREE.Plane(new THREE.Vector3(0, 1, 0), -this.ball.getPosition().y);
+      raycaster.setFromCamera(this.aimStartPosition, this.camera);
+      const startPoint = raycaster.ray.intersectPlane(green, new THREE.Vector3()) ?? new THREE.Vector3();
+      raycaster.setFromCamera(this.aimEndPosition, this.camera);
+      const endPoint = raycaster.ray.intersectPlane(green, new THREE.Vector3()) ?? new THREE.Vector3();
+
+      const direction = startPoint.sub(endPoint).setY(0).normalize();
+      if (this.invertDrag) direction.negate();
+      return { direction, power: this.getDragPower() };
+    }
+
     raycaster.setFromCamera(this.aimStartPosition, this.camera);
     raycaster.ray.intersectPlane(new THREE.Plane(new THREE.Vector3(0, 1, 0), 0), new THREE.Vector3());
     const startWorld = raycaster.ray.direction.clone();
@@ -163,24 +374,32 @@ export class BallControls {
     // Calculate direction (reversed because we're pulling back to aim forward)
     const direction = startWorld.sub(endWorld).normalize();
     direction.y = 0; // Keep it horizontal
+    if (this.invertDrag) direction.negate();
     
-    // Calculate power based on mouse drag distance
+    return { direction, power: this.getDragPower() };
+  }
+
+  // Power from how far the pointer has been dragged
+  private getDragPower(): number {
     const dragDistance = this.aimStartPosition.distanceTo(this.aimEndPosition);
-    const power = Math.min(dragDistance * this.maxPower * 2, this.maxPower);
-    
-    return { direction, power };
+    return Math.min(dragDistance * this.maxPower * 2 * this.dragSensitivity, this.maxPower);
   }
 
-  private hideAimingVisuals(): void {
+  public hideAimingVisuals(): void {
+    this.aimDirection = null;
+    this.aimPower = 0;
     if (this.aimLine) this.aimLine.visible = false;
     if (this.powerIndicator) this.powerIndicator.visible = false;
+    this.trajectoryPreview?.hide();
   }
 
   public dispose(): void {
-    this.domElement.removeEventListener('mousedown', this.onMouseDown.bind(this));
-    this.domElement.removeEventListener('mousemove', this.onMouseMove.bind(this));
-    this.domElement.removeEventListener('mouseup', this.onMouseUp.bind(this));
-    this.domElement.removeEventListener('contextmenu', (e) => e.preventDefault());
+    this.cancelAiming();
+    this.domElement.removeEventListener('pointerdown', this.handlePointerDown, { capture: true });
+    this.domElement.removeEventListener('pointermove', this.handlePointerMove);
+    this.domElement.removeEventListener('pointerup', this.handlePointerUp);
+    this.domElement.removeEventListener('pointercancel', this.handlePointerCancel);
+    this.domElement.removeEventListener('contextmenu', this.handleContextMenu);
     
     if (this.aimLine) {
       this.scene.remove(this.aimLine);
@@ -193,5 +412,8 @@ export class BallControls {
       this.powerIndicator.geometry.dispose();
       (this.powerIndicator.material as THREE.Material).dispose();
     }
+
+    this.trajectoryPreview?.dispose();
+    this.trajectoryPreview = null;
   }
 }
@@ -0,0 +1,14 @@
+import { TrajectoryLimits } from '../simulation/TrajectoryPredictor';
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'normal';
+
+/**
+ * How much of the predicted path each difficulty shows while aiming; null means no preview
+ */
+export const TRAJECTORY_PREVIEW: Record<Difficulty, TrajectoryLimits | null> = {
+  easy: { maxBounces: Infinity, maxDistance: Infinity }, // The whole shot, wherever it ends up
+  normal: { maxBounces: 1, maxDistance: 10 }, // Through the first bounce off a wall
+  hard: null
+};
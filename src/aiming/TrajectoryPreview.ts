@@ -0,0 +1,141 @@
+import * as THREE from 'three';
+import { LevelData, Vec3Data } from '../levels/LevelData';
+import { TrajectoryLimits, TrajectoryPredictor } from '../simulation/TrajectoryPredictor';
+
+// Don't re-simulate for aim changes smaller than these
+const DIRECTION_EPSILON = 0.002;
+const POWER_EPSILON = 0.02;
+
+// With moving obstacles on the course, refresh the prediction this often (seconds of course time)
+const MOVING_REFRESH_INTERVAL = 0.1;
+
+/**
+ * Dashed line along the predicted path of the shot being aimed, with a marker at every bounce
+ */
+export class TrajectoryPreview {
+  private scene: THREE.Scene;
+  private predictor: TrajectoryPredictor;
+  private limits: TrajectoryLimits;
+  private line: THREE.Line;
+  private capacity: number = 0; // Points the line's buffers can hold
+  private bounceMarkers: THREE.Mesh[] = [];
+  private bounceGeometry: THREE.RingGeometry;
+  private bounceMaterial: THREE.MeshBasicMaterial;
+  private lastDirection: THREE.Vector3 = new THREE.Vector3();
+  private lastPower: number = -1;
+  private lastStart: THREE.Vector3 = new THREE.Vector3();
+  private lastCourseTime: number = 0;
+  private getCourseTime: (() => number) | null;
+
+  /**
+   * getCourseTime reads the live course clock; only needed when the level has moving obstacles
+   */
+  constructor(scene: THREE.Scene, level: LevelData, limits: TrajectoryLimits, getCourseTime?: () => number) {
+    this.scene = scene;
+    this.limits = limits;
+    this.predictor = new TrajectoryPredictor(level);
+    this.getCourseTime = level.movingObstacles?.length ? getCourseTime ?? null : null;
+
+    this.line = new THREE.Line(
+      new THREE.BufferGeometry(),
+      new THREE.LineDashedMaterial({ color: 0xffffff, dashSize: 0.2, gapSize: 0.12, transparent: true, opacity: 0.85 })
+    );
+    this.line.name = 'trajectory-preview';
+    this.line.visible = false;
+    this.scene.add(this.line);
+
+    this.bounceGeometry = new THREE.RingGeometry(0.12, 0.18, 16);
+    this.bounceMaterial = new THREE.MeshBasicMaterial({ color: 0xffd700, side: THREE.DoubleSide });
+  }
+
+  update(start: THREE.Vector3, direction: THREE.Vector3, power: number): void {
+    const courseTime = this.getCourseTime?.() ?? 0;
+    const unchanged =
+      this.line.visible &&
+      start.distanceTo(this.lastStart) < 0.001 &&
+      direction.distanceTo(this.lastDirection) < DIRECTION_EPSILON &&
+      Math.abs(power - this.lastPower) < POWER_EPSILON &&
+      Math.abs(courseTime - this.lastCourseTime) < MOVING_REFRESH_INTERVAL;
+    if (unchanged) return;
+
+    this.lastStart.copy(start);
+    this.lastDirection.copy(direction);
+    this.lastPower = power;
+    this.lastCourseTime = courseTime;
+
+    const toData = (v: THREE.Vector3): Vec3Data => [v.x, v.y, v.z];
+    const path = this.predictor.predict(toData(start), toData(direction), power, this.limits, courseTime);
+
+    this.setLinePoints(path.points);
+    this.line.visible = true;
+
+    this.updateBounceMarkers(path.bouncePoints);
+  }
+
+  hide(): void {
+    this.line.visible = false;
+    this.bounceMarkers.forEach(marker => { marker.visible = false; });
+  }
+
+  dispose(): void {
+    this.scene.remove(this.line);
+    this.line.geometry.dispose();
+    (this.line.material as THREE.Material).dispose();
+    this.bounceMarkers.forEach(marker => this.scene.remove(marker));
+    this.bounceGeometry.dispose();
+    this.bounceMaterial.dispose();
+    this.predictor.dispose();
+  }
+
+  /**
+   * Write the path into the line's buffers in place; this runs every frame while aiming,
+   * and replacing the attributes would leave their GPU buffers behind each time
+   */
+  private setLinePoints(points: Vec3Data[]): void {
+    if (points.length > this.capacity) {
+      // Grow into a fresh geometry so the old buffers are freed with the old one
+      this.capacity = Math.max(points.length, this.capacity * 2, 256);
+      this.line.geometry.dispose();
+      this.line.geometry = new THREE.BufferGeometry();
+      this.line.geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(this.capacity * 3), 3));
+      this.line.geometry.setAttribute('lineDistance', new THREE.BufferAttribute(new Float32Array(this.capacity), 1));
+    }
+
+    const geometry = this.line.geometry;
+    const positions = geometry.getAttribute('position') as THREE.BufferAttribute;
+    const distances = geometry.getAttribute('lineDistance') as THREE.BufferAttribute;
+
+    // Distance along the line is what the dashes are measured in
+    let distance = 0;
+    points.forEach(([x, y, z], i) => {
+      if (i > 0) {
+        const [px, py, pz] = points[i - 1];
+        distance += Math.hypot(x - px, y - py, z - pz);
+      }
+      positions.setXYZ(i, x, y + 0.05, z);
+      distances.setX(i, distance);
+    });
+    positions.needsUpdate = true;
+    distances.needsUpdate = true;
+    geometry.setDrawRange(0, points.length);
+    geometry.computeBoundingSphere();
+  }
+
+  private updateBounceMarkers(points: Vec3Data[]): void {
+    while (this.bounceMarkers.length < points.length) {
+      const marker = new THREE.Mesh(this.bounceGeometry, this.bounceMaterial);
+      marker.rotation.x = -Math.PI / 2;
+      marker.name = 'trajectory-bounce';
+      this.scene.add(marker);
+      this.bounceMarkers.push(marker);
+    }
+
+    this.bounceMarkers.forEach((marker, i) => {
+      marker.visible = i < points.length;
+      if (marker.visible) {
+        const [x, , z] = points[i];
+        marker.position.set(x, 0.03, z);
+      }
+    });
+  }
+}
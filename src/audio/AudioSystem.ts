@@ -0,0 +1,282 @@
+export interface AudioVolumes {
+  master: number; // 0..1, applies to everything
+  effects: number; // Putts, bounces, rolling and the cup
+  ambience: number; // Wind over the course and the crowd
+  muted: boolean;
+}
+
+// Rolling is silent below this speed and at full volume from ROLL_FULL_SPEED up (m/s)
+const ROLL_MIN_SPEED = 0.1;
+const ROLL_FULL_SPEED = 8;
+
+// Bounces softer than this aren't worth a sound; at WALL_FULL_IMPACT they're as loud as they get
+const WALL_MIN_IMPACT = 0.3;
+const WALL_FULL_IMPACT = 10;
+
+// How quickly volume changes settle, in seconds, so sliders and rolling don't click
+const VOLUME_RAMP = 0.05;
+
+/**
+ * Sound effects synthesized with the Web Audio API, so the game needs no audio files.
+ * Browsers only allow audio after the player has interacted with the page, so nothing
+ * plays until the first click, tap or key press.
+ */
+export class AudioSystem {
+  private context: AudioContext | null = null;
+  private master!: GainNode;
+  private effects!: GainNode;
+  private ambience!: GainNode;
+  private noise!: AudioBuffer; // Two seconds of white noise, shared by every noisy sound
+  private rollingGain: GainNode | null = null;
+  private rollingFilter: BiquadFilterNode | null = null;
+  private windGain: GainNode | null = null;
+  private volumes: AudioVolumes;
+
+  private readonly handleFirstInput = () => this.unlock();
+
+  constructor(volumes: AudioVolumes) {
+    this.volumes = { ...volumes };
+    window.addEventListener('pointerdown', this.handleFirstInput, true);
+    window.addEventListener('keydown', this.handleFirstInput, true);
+  }
+
+  setVolumes(volumes: AudioVolumes): void {
+    this.volumes = { ...volumes };
+    if (!this.context) return;
+
+    const now = this.context.currentTime;
+    this.master.gain.setTargetAtTime(volumes.muted ? 0 : volumes.master, now, VOLUME_RAMP);
+    this.effects.gain.setTargetAtTime(volumes.effects, now, VOLUME_RAMP);
+    this.ambience.gain.setTargetAtTime(volumes.ambience, now, VOLUME_RAMP);
+  }
+
+  /**
+   * Putter striking the ball; power is the share of full power, 0..1
+   */
+  playHit(power: number): void {
+    if (!this.context) return;
+    const now = this.context.currentTime;
+    const loudness = 0.3 + 0.7 * clamp01(power);
+
+    // The click of the face on the ball...
+    this.playNoiseBurst(this.effects, now, 0.04, 0.6 * loudness, 'bandpass', 2500 + 1500 * power);
+
+    // ...and the body of the knock, pitched up a little for harder putts
+    this.playTone(this.effects, now, 'sine', 900 + 300 * power, 400, 0.12, 0.5 * loudness);
+  }
+
+  /**
+   * Ball bouncing off a wall or obstacle, at the given speed into it (m/s)
+   */
+  playWallHit(impactSpeed: number): void {
+    if (!this.context || impactSpeed < WALL_MIN_IMPACT) return;
+    const now = this.context.currentTime;
+    const loudness = clamp01(impactSpeed / WALL_FULL_IMPACT);
+
+    // Wooden thock: a short drop in pitch with a little noise for the rattle of the board
+    this.playTone(this.effects, now, 'triangle', 320, 140, 0.15, 0.8 * loudness);
+    this.playNoiseBurst(this.effects, now, 0.05, 0.3 * loudness, 'lowpass', 1800);
+  }
+
+  /**
+   * Ball dropping to the bottom of the cup: a few rattles, each quieter and quicker than the last
+   */
+  playCupDrop(): void {
+    if (!this.context) return;
+    const now = this.context.currentTime;
+
+    [0, 0.12, 0.2, 0.25].forEach((delay, i) => {
+      const loudness = 0.7 / (i + 1);
+      this.playTone(this.effects, now + delay, 'sine', 1400 - i * 80, 1100 - i * 80, 0.08, loudness);
+      this.playNoiseBurst(this.effects, now + delay, 0.03, loudness * 0.4, 'highpass', 3000);
+    });
+  }
+
+  /**
+   * Crowd cheering, for a hole-in-one
+   */
+  playCheer(): void {
+    if (!this.context) return;
+    const now = this.context.currentTime;
+    const duration = 3;
+
+    // Many voices are a band of noise that swells, wobbles and dies away
+    const source = this.createNoiseSource(true);
+    const filter = this.context.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.frequency.value = 1200;
+    filter.Q.value = 0.6;
+
+    const tremolo = this.context.createGain();
+    const wobble = this.context.createOscillator();
+    const wobbleDepth = this.context.createGain();
+    wobble.frequency.value = 7;
+    wobbleDepth.gain.value = 0.3;
+    wobble.connect(wobbleDepth);
+    wobbleDepth.connect(tremolo.gain);
+
+    const gain = this.context.createGain();
+    gain.gain.setValueAtTime(0.0001, now);
+    gain.gain.exponentialRampToValueAtTime(0.6, now + 0.4);
+    gain.gain.setTargetAtTime(0.0001, now + 1.5, 0.5);
+
+    source.connect(filter);
+    filter.connect(tremolo);
+    tremolo.connect(gain);
+    gain.connect(this.ambience);
+    source.start(now);
+    wobble.start(now);
+    source.stop(now + duration);
+    wobble.stop(now + duration);
+
+    // A couple of whistles on top
+    this.playTone(this.ambience, now + 0.3, 'sine', 1800, 2600, 0.35, 0.15);
+    this.playTone(this.ambience, now + 0.9, 'sine', 2000, 2800, 0.3, 0.12);
+  }
+
+  /**
+   * Rolling rumble for the fastest ball on the course; call every frame, 0 when nothing rolls
+   */
+  setRollingSpeed(speed: number): void {
+    if (!this.context || !this.rollingGain || !this.rollingFilter) return;
+    const now = this.context.currentTime;
+    const amount = speed < ROLL_MIN_SPEED ? 0 : clamp01(speed / ROLL_FULL_SPEED);
+
+    this.rollingGain.gain.setTargetAtTime(0.35 * Math.sqrt(amount), now, VOLUME_RAMP);
+    this.rollingFilter.frequency.setTargetAtTime(200 + 900 * amount, now, VOLUME_RAMP);
+  }
+
+  /**
+   * Wind over the course; off while nothing is being played, e.g. on the welcome screen
+   */
+  setAmbienceActive(active: boolean): void {
+    if (!this.context || !this.windGain) return;
+    this.windGain.gain.setTargetAtTime(active ? 0.08 : 0, this.context.currentTime, 0.5);
+  }
+
+  private unlock(): void {
+    window.removeEventListener('pointerdown', this.handleFirstInput, true);
+    window.removeEventListener('keydown', this.handleFirstInput, true);
+
+    try {
+      this.context = new AudioContext();
+    } catch (error) {
+      console.warn('⚠️ Web Audio is not available, playing without sound:', error);
+      return;
+    }
+
+    this.master = this.context.createGain();
+    this.effects = this.context.createGain();
+    this.ambience = this.context.createGain();
+    this.effects.connect(this.master);
+    this.ambience.connect(this.master);
+    this.master.connect(this.context.destination);
+    this.setVolumes(this.volumes);
+
+    this.noise = this.context.createBuffer(1, this.context.sampleRate * 2, this.context.sampleRate);
+    const samples = this.noise.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+    this.startLoops();
+    console.log('🔊 Audio started');
+  }
+
+  /**
+   * Sounds that run the whole time and are only ever turned up or down
+   */
+  private startLoops(): void {
+    const context = this.context!;
+
+    this.rollingFilter = context.createBiquadFilter();
+    this.rollingFilter.type = 'lowpass';
+    this.rollingFilter.frequency.value = 200;
+    this.rollingGain = context.createGain();
+    this.rollingGain.gain.value = 0;
+    const rolling = this.createNoiseSource(true);
+    rolling.connect(this.rollingFilter);
+    this.rollingFilter.connect(this.rollingGain);
+    this.rollingGain.connect(this.effects);
+    rolling.start();
+
+    // Slowly sweeping low noise sounds like a breeze
+    const windFilter = context.createBiquadFilter();
+    windFilter.type = 'lowpass';
+    windFilter.frequency.value = 400;
+    const gust = context.createOscillator();
+    const gustDepth = context.createGain();
+    gust.frequency.value = 0.1;
+    gustDepth.gain.value = 250;
+    gust.connect(gustDepth);
+    gustDepth.connect(windFilter.frequency);
+
+    this.windGain = context.createGain();
+    this.windGain.gain.value = 0;
+    const wind = this.createNoiseSource(true);
+    wind.connect(windFilter);
+    windFilter.connect(this.windGain);
+    this.windGain.connect(this.ambience);
+    wind.start();
+    gust.start();
+  }
+
+  private createNoiseSource(loop: boolean): AudioBufferSourceNode {
+    const source = this.context!.createBufferSource();
+    source.buffer = this.noise;
+    source.loop = loop;
+    return source;
+  }
+
+  private playNoiseBurst(
+    output: AudioNode,
+    start: number,
+    duration: number,
+    volume: number,
+    filterType: BiquadFilterType,
+    frequency: number
+  ): void {
+    const context = this.context!;
+    const source = this.createNoiseSource(false);
+    const filter = context.createBiquadFilter();
+    filter.type = filterType;
+    filter.frequency.value = frequency;
+
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+
+    source.connect(filter);
+    filter.connect(gain);
+    gain.connect(output);
+    source.start(start, Math.random()); // Somewhere else in the noise each time
+    source.stop(start + duration);
+  }
+
+  private playTone(
+    output: AudioNode,
+    start: number,
+    type: OscillatorType,
+    fromFrequency: number,
+    toFrequency: number,
+    duration: number,
+    volume: number
+  ): void {
+    const context = this.context!;
+    const oscillator = context.createOscillator();
+    oscillator.type = type;
+    oscillator.frequency.setValueAtTime(fromFrequency, start);
+    oscillator.frequency.exponentialRampToValueAtTime(toFrequency, start + duration);
+
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(Math.max(volume, 0.0001), start);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+
+    oscillator.connect(gain);
+    gain.connect(output);
+    oscillator.start(start);
+    oscillator.stop(start + duration);
+  }
+}
+
+function clamp01(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
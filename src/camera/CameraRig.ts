@@ -0,0 +1,289 @@
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { LevelData } from '../levels/LevelData';
+import { GROUND_COLLISION_GROUP, Terrain } from '../simulation/Terrain';
+
+export type CameraMode = 'orbit' | 'chase' | 'aim' | 'topDown' | 'hole';
+
+export const CAMERA_MODES: { mode: CameraMode; label: string }[] = [
+  { mode: 'orbit', label: 'Free orbit' },
+  { mode: 'chase', label: 'Chase' },
+  { mode: 'aim', label: 'Behind the ball' },
+  { mode: 'topDown', label: 'Top-down' },
+  { mode: 'hole', label: 'From the hole' }
+];
+
+/**
+ * What the camera is looking after: the ball whose turn it is
+ */
+export interface CameraSubject {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  aimDirection: THREE.Vector3 | null; // Shot line while the player is aiming
+}
+
+// How quickly the camera catches up with where its mode wants it (per second)
+export const DEFAULT_CAMERA_SMOOTHING = 4;
+
+// Below this the chase camera keeps looking the way the ball last rolled
+const CHASE_MIN_SPEED = 0.5;
+
+// Room left between the camera and whatever it would otherwise clip into
+const WALL_MARGIN = 0.3;
+const GROUND_CLEARANCE = 0.4;
+const MIN_CAMERA_DISTANCE = 0.8;
+
+// Share of the level kept as a border around the top-down view
+const TOP_DOWN_MARGIN = 1.15;
+
+// How close the flight up has to get before the top-down view switches to the flat projection
+const TOP_DOWN_SWITCH_DISTANCE = 0.5;
+
+/**
+ * Owns where the game camera goes. Free orbit leaves it to OrbitControls; the other modes
+ * place it around the ball or the level and glide there. The top-down mode flies the
+ * perspective camera overhead, then hands over to an orthographic camera fitted to the green.
+ */
+export class CameraRig {
+  private camera: THREE.PerspectiveCamera;
+  private orthoCamera: THREE.OrthographicCamera;
+  private controls: OrbitControls;
+  private world: CANNON.World;
+  private mode: CameraMode = 'orbit';
+  private activeCamera: THREE.Camera;
+  private enabled: boolean = true;
+  private userControl: boolean = true;
+  private smoothing: number = DEFAULT_CAMERA_SMOOTHING;
+  private onActiveCameraChange: (camera: THREE.Camera) => void;
+
+  // Course the camera is on
+  private levelCenter: THREE.Vector3 = new THREE.Vector3();
+  private levelSize: THREE.Vector2 = new THREE.Vector2(20, 20);
+  private cupPosition: THREE.Vector3 = new THREE.Vector3();
+  private terrain: Terrain | null = null;
+  private chaseDirection: THREE.Vector3 = new THREE.Vector3(0, 0, -1);
+
+  constructor(
+    camera: THREE.PerspectiveCamera,
+    controls: OrbitControls,
+    world: CANNON.World,
+    onActiveCameraChange: (camera: THREE.Camera) => void
+  ) {
+    this.camera = camera;
+    this.controls = controls;
+    this.world = world;
+    this.onActiveCameraChange = onActiveCameraChange;
+    this.activeCamera = camera;
+
+    this.orthoCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 500);
+    this.orthoCamera.up.set(0, 0, -1); // Screen up is down the course, the way the levels are drawn
+    this.fitOrthoCamera();
+  }
+
+  getMode(): CameraMode {
+    return this.mode;
+  }
+
+  setMode(mode: CameraMode): void {
+    if (mode === this.mode) return;
+    this.mode = mode;
+
+    // Leaving the overhead view goes back to perspective right away; the glide starts from overhead
+    if (mode !== 'topDown') this.setActiveCamera(this.camera);
+    this.applyControlsEnabled();
+  }
+
+  nextMode(): CameraMode {
+    const index = CAMERA_MODES.findIndex(({ mode }) => mode === this.mode);
+    this.setMode(CAMERA_MODES[(index + 1) % CAMERA_MODES.length].mode);
+    return this.mode;
+  }
+
+  getActiveCamera(): THREE.Camera {
+    return this.activeCamera;
+  }
+
+  /**
+   * Per second; higher catches up faster
+   */
+  setSmoothing(smoothing: number): void {
+    this.smoothing = smoothing;
+  }
+
+  /**
+   * Hand the camera to someone else, e.g. the editor or a replay. Orbit controls are left on.
+   */
+  setEnabled(enabled: boolean): void {
+    if (enabled === this.enabled) return;
+    this.enabled = enabled;
+
+    if (!enabled) this.setActiveCamera(this.camera);
+    this.applyControlsEnabled();
+  }
+
+  /**
+   * Whether the player may orbit by dragging; off while they aim a shot
+   */
+  setUserControl(userControl: boolean): void {
+    this.userControl = userControl;
+    this.applyControlsEnabled();
+  }
+
+  setLevel(data: LevelData, terrain: Terrain): void {
+    const bounds = new THREE.Box2();
+    data.floor.polygon.forEach(([x, z]) => bounds.expandByPoint(new THREE.Vector2(x, z)));
+    const center = bounds.getCenter(new THREE.Vector2());
+    bounds.getSize(this.levelSize);
+
+    this.levelCenter.set(center.x, 0, center.y);
+    this.cupPosition.set(...data.cup.position);
+    this.terrain = terrain;
+
+    // Start out looking from the tee towards the cup
+    const toCup = this.cupPosition.clone().sub(new THREE.Vector3(...data.start)).setY(0);
+    this.chaseDirection.copy(toCup.lengthSq() > 0 ? toCup.normalize() : new THREE.Vector3(0, 0, -1));
+
+    this.fitOrthoCamera();
+  }
+
+  setAspect(aspect: number): void {
+    this.camera.aspect = aspect;
+    this.camera.updateProjectionMatrix();
+    this.fitOrthoCamera();
+  }
+
+  /**
+   * Move the camera for this frame; call instead of controls.update()
+   */
+  update(deltaTime: number, subject: CameraSubject | null): void {
+    if (!this.enabled) {
+      this.controls.update();
+      return;
+    }
+
+    if (this.mode === 'orbit') {
+      // Orbit around the ball whose turn it is
+      if (subject) this.controls.target.copy(subject.position);
+      this.controls.update();
+      return;
+    }
+
+    // Dragging maps the pointer through the camera, so turning it mid-drag would turn the shot too
+    if (this.mode === 'aim' && !this.userControl) return;
+
+    const desired = this.getDesiredPose(subject);
+    const alpha = 1 - Math.exp(-this.smoothing * deltaTime);
+    this.controls.target.lerp(desired.target, alpha);
+    this.camera.position.lerp(desired.position, alpha);
+
+    if (this.mode !== 'topDown') {
+      this.camera.position.copy(this.avoidClipping(this.controls.target, this.camera.position));
+    }
+    this.camera.lookAt(this.controls.target);
+
+    if (this.mode === 'topDown' && this.camera.position.distanceTo(desired.position) < TOP_DOWN_SWITCH_DISTANCE) {
+      this.setActiveCamera(this.orthoCamera);
+    }
+  }
+
+  private getDesiredPose(subject: CameraSubject | null): { position: THREE.Vector3; target: THREE.Vector3 } {
+    const ball = subject ? subject.position.clone() : this.controls.target.clone();
+
+    switch (this.mode) {
+      case 'chase': {
+        // Trail the ball the way it's rolling, a little above it
+        const velocity = subject ? subject.velocity.clone().setY(0) : new THREE.Vector3();
+        if (velocity.length() > CHASE_MIN_SPEED) this.chaseDirection.copy(velocity.normalize());
+        return {
+          target: ball,
+          position: ball.clone().addScaledVector(this.chaseDirection, -5).add(new THREE.Vector3(0, 2.5, 0))
+        };
+      }
+      case 'aim': {
+        // Low behind the ball, down the shot line (or towards the cup before aiming)
+        const direction = subject?.aimDirection?.clone().setY(0) ?? this.cupPosition.clone().sub(ball).setY(0);
+        if (direction.lengthSq() < 0.0001) direction.copy(this.chaseDirection);
+        direction.normalize();
+        return {
+          target: ball.clone().addScaledVector(direction, 2),
+          position: ball.clone().addScaledVector(direction, -3.5).add(new THREE.Vector3(0, 1.5, 0))
+        };
+      }
+      case 'hole': {
+        // Behind the cup, looking back at the ball
+        const awayFromBall = this.cupPosition.clone().sub(ball).setY(0);
+        if (awayFromBall.lengthSq() < 0.01) awayFromBall.copy(this.chaseDirection);
+        awayFromBall.normalize();
+        return {
+          target: ball,
+          position: this.cupPosition.clone().addScaledVector(awayFromBall, 3).add(new THREE.Vector3(0, 2, 0))
+        };
+      }
+      default: {
+        // Straight over the middle, high enough that perspective frames what the flat view will
+        const halfHeight = this.orthoCamera.top;
+        const height = halfHeight / Math.tan(THREE.MathUtils.degToRad(this.camera.fov / 2));
+        return {
+          target: this.levelCenter.clone(),
+          position: this.levelCenter.clone().add(new THREE.Vector3(0, height, 0.01))
+        };
+      }
+    }
+  }
+
+  /**
+   * Pull the camera in front of any wall or obstacle between it and what it looks at,
+   * and keep it above the green
+   */
+  private avoidClipping(target: THREE.Vector3, position: THREE.Vector3): THREE.Vector3 {
+    const offset = position.clone().sub(target);
+    const distance = offset.length();
+    if (distance < 0.0001) return position.clone();
+    const direction = offset.divideScalar(distance);
+
+    let nearest = distance;
+    const from = new CANNON.Vec3(target.x, target.y, target.z);
+    const to = new CANNON.Vec3(position.x, position.y, position.z);
+    this.world.raycastAll(from, to, { skipBackfaces: true, collisionFilterMask: ~GROUND_COLLISION_GROUP }, (result) => {
+      // Balls get out of the way; anything that doesn't move is in the way
+      if (result.body?.type === CANNON.Body.DYNAMIC) return;
+      nearest = Math.min(nearest, result.distance);
+    });
+
+    const safeDistance = nearest < distance ? Math.max(nearest - WALL_MARGIN, MIN_CAMERA_DISTANCE) : distance;
+    const safe = target.clone().addScaledVector(direction, safeDistance);
+
+    const ground = this.terrain ? this.terrain.getHeightAt(safe.x, safe.z) : 0;
+    safe.y = Math.max(safe.y, ground + GROUND_CLEARANCE);
+    return safe;
+  }
+
+  private fitOrthoCamera(): void {
+    const aspect = this.camera.aspect;
+    const halfDepth = (this.levelSize.y / 2) * TOP_DOWN_MARGIN;
+    const halfWidth = (this.levelSize.x / 2) * TOP_DOWN_MARGIN;
+    const halfHeight = Math.max(halfDepth, halfWidth / aspect);
+
+    this.orthoCamera.left = -halfHeight * aspect;
+    this.orthoCamera.right = halfHeight * aspect;
+    this.orthoCamera.top = halfHeight;
+    this.orthoCamera.bottom = -halfHeight;
+    this.orthoCamera.updateProjectionMatrix();
+
+    this.orthoCamera.position.copy(this.levelCenter).add(new THREE.Vector3(0, 100, 0));
+    this.orthoCamera.lookAt(this.levelCenter);
+    this.orthoCamera.updateMatrixWorld();
+  }
+
+  private setActiveCamera(camera: THREE.Camera): void {
+    if (camera === this.activeCamera) return;
+    this.activeCamera = camera;
+    this.onActiveCameraChange(camera);
+  }
+
+  private applyControlsEnabled(): void {
+    // Scripted modes drive the camera themselves; drags would only pile up for later
+    this.controls.enabled = this.userControl && (!this.enabled || this.mode === 'orbit');
+  }
+}
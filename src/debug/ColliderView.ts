@@ -0,0 +1,178 @@
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+
+// Wireframe colors by kind of body
+const STATIC_COLOR = 0xff00ff;
+const KINEMATIC_COLOR = 0x00e5ff;
+const DYNAMIC_COLOR = 0xffeb3b;
+
+// Planes are infinite; draw this much of them
+const PLANE_SIZE = 40;
+
+/**
+ * Debug overlay that draws every cannon-es body in the world as a wireframe of its actual
+ * collision shapes, on top of the visual meshes. Follows bodies as they move and as levels
+ * add and remove them.
+ */
+export class ColliderView {
+  private scene: THREE.Scene;
+  private world: CANNON.World;
+  private root: THREE.Group = new THREE.Group();
+  private bodyObjects: Map<CANNON.Body, THREE.Group> = new Map();
+  private materials: Map<number, THREE.MeshBasicMaterial> = new Map();
+  private visible: boolean = false;
+
+  constructor(scene: THREE.Scene, world: CANNON.World) {
+    this.scene = scene;
+    this.world = world;
+    this.root.name = 'collider-view';
+  }
+
+  isVisible(): boolean {
+    return this.visible;
+  }
+
+  setVisible(visible: boolean): void {
+    if (visible === this.visible) return;
+    this.visible = visible;
+
+    if (visible) {
+      this.scene.add(this.root);
+      this.update();
+    } else {
+      this.scene.remove(this.root);
+      this.clear();
+    }
+  }
+
+  toggle(): boolean {
+    this.setVisible(!this.visible);
+    return this.visible;
+  }
+
+  /**
+   * Match the wireframes to the bodies in the world; call once per frame while visible
+   */
+  update(): void {
+    if (!this.visible) return;
+
+    const bodies = new Set(this.world.bodies);
+    this.bodyObjects.forEach((object, body) => {
+      if (!bodies.has(body)) this.removeBody(body, object);
+    });
+
+    bodies.forEach(body => {
+      let object = this.bodyObjects.get(body);
+      if (!object) {
+        object = this.createBodyObject(body);
+        this.bodyObjects.set(body, object);
+        this.root.add(object);
+      }
+      object.position.set(body.position.x, body.position.y, body.position.z);
+      object.quaternion.set(body.quaternion.x, body.quaternion.y, body.quaternion.z, body.quaternion.w);
+    });
+  }
+
+  dispose(): void {
+    this.setVisible(false);
+    this.materials.forEach(material => material.dispose());
+    this.materials.clear();
+  }
+
+  private clear(): void {
+    this.bodyObjects.forEach((object, body) => this.removeBody(body, object));
+  }
+
+  private removeBody(body: CANNON.Body, object: THREE.Group): void {
+    this.root.remove(object);
+    object.traverse(child => {
+      if (child instanceof THREE.Mesh) child.geometry.dispose();
+    });
+    this.bodyObjects.delete(body);
+  }
+
+  private createBodyObject(body: CANNON.Body): THREE.Group {
+    const group = new THREE.Group();
+    const color = body.type === CANNON.Body.KINEMATIC ? KINEMATIC_COLOR : body.type === CANNON.Body.STATIC ? STATIC_COLOR : DYNAMIC_COLOR;
+
+    body.shapes.forEach((shape, i) => {
+      const geometry = this.createShapeGeometry(shape);
+      if (!geometry) return;
+
+      const mesh = new THREE.Mesh(geometry, this.getMaterial(color));
+      const offset = body.shapeOffsets[i];
+      const orientation = body.shapeOrientations[i];
+      mesh.position.set(offset.x, offset.y, offset.z);
+      mesh.quaternion.set(orientation.x, orientation.y, orientation.z, orientation.w);
+      group.add(mesh);
+    });
+
+    return group;
+  }
+
+  private getMaterial(color: number): THREE.MeshBasicMaterial {
+    let material = this.materials.get(color);
+    if (!material) {
+      material = new THREE.MeshBasicMaterial({ color, wireframe: true });
+      this.materials.set(color, material);
+    }
+    return material;
+  }
+
+  /**
+   * Geometry of one collision shape in its own frame; null for shapes there's no way to draw
+   */
+  private createShapeGeometry(shape: CANNON.Shape): THREE.BufferGeometry | null {
+    if (shape instanceof CANNON.Sphere) {
+      return new THREE.SphereGeometry(shape.radius, 12, 8);
+    }
+    if (shape instanceof CANNON.Box) {
+      const { x, y, z } = shape.halfExtents;
+      return new THREE.BoxGeometry(x * 2, y * 2, z * 2);
+    }
+    if (shape instanceof CANNON.Plane) {
+      // Cannon's plane faces +z, like PlaneGeometry
+      return new THREE.PlaneGeometry(PLANE_SIZE, PLANE_SIZE, PLANE_SIZE / 2, PLANE_SIZE / 2);
+    }
+    if (shape instanceof CANNON.ConvexPolyhedron) {
+      // Cylinders are convex polyhedra too
+      const positions: number[] = [];
+      shape.vertices.forEach(vertex => positions.push(vertex.x, vertex.y, vertex.z));
+      const indices: number[] = [];
+      shape.faces.forEach(face => {
+        for (let i = 1; i < face.length - 1; i++) indices.push(face[0], face[i], face[i + 1]);
+      });
+      return this.createIndexedGeometry(positions, indices);
+    }
+    if (shape instanceof CANNON.Trimesh) {
+      return this.createIndexedGeometry(Array.from(shape.vertices), Array.from(shape.indices));
+    }
+    if (shape instanceof CANNON.Heightfield) {
+      const columns = shape.data.length;
+      const rows = shape.data[0].length;
+      const positions: number[] = [];
+      for (let i = 0; i < columns; i++) {
+        for (let j = 0; j < rows; j++) {
+          positions.push(i * shape.elementSize, j * shape.elementSize, shape.data[i][j]);
+        }
+      }
+      const indices: number[] = [];
+      for (let i = 0; i < columns - 1; i++) {
+        for (let j = 0; j < rows - 1; j++) {
+          // Split along the same diagonal as cannon-es, from (i + 1, j) to (i, j + 1)
+          const a = i * rows + j;
+          indices.push(a, a + rows, a + 1, a + rows, a + rows + 1, a + 1);
+        }
+      }
+      return this.createIndexedGeometry(positions, indices);
+    }
+    return null;
+  }
+
+  private createIndexedGeometry(positions: number[], indices: number[]): THREE.BufferGeometry {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setIndex(indices);
+    return geometry;
+  }
+}
@@ -0,0 +1,668 @@
+import * as THREE from 'three';
+import { LevelManager } from '../levels/LevelManager';
+import { LEVEL_FORMAT_VERSION, LevelData, Vec2Data, parseLevelData } from '../levels/LevelData';
+
+export type EditorTool = 'select' | 'tee' | 'cup' | 'wall' | 'box' | 'cylinder';
+
+type EditorSelection =
+  | { kind: 'tee' }
+  | { kind: 'cup' }
+  | { kind: 'wall'; index: number }
+  | { kind: 'obstacle'; index: number };
+
+export interface LevelEditorCallbacks {
+  onPlayTestStart: () => void;
+  onPlayTestEnd: () => void;
+  onInteractionStart: () => void; // Editor grabbed the mouse, camera should let go
+  onInteractionEnd: () => void;
+  onExit: () => void;
+}
+
+const GRID_SIZE = 0.5;       // Snap increment in world units
+const GRID_EXTENT = 40;      // Width of the visible grid
+const ROTATE_STEP = Math.PI / 12; // 15° per rotate press
+const PICK_RADIUS = 0.6;     // How close a click must be to grab something
+const FLOOR_MARGIN = 1;      // Extra floor around the outermost element
+
+/**
+ * In-browser editor for JSON level layouts.
+ * Edits a LevelData in place and previews it through the LevelManager,
+ * so what you see is exactly what the game will load.
+ */
+export class LevelEditor {
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private domElement: HTMLElement;
+  private levelManager: LevelManager;
+  private callbacks: LevelEditorCallbacks;
+
+  private data: LevelData;
+  private tool: EditorTool = 'select';
+  private selection: EditorSelection | null = null;
+  private isPlayTesting: boolean = false;
+
+  // Mouse interaction state
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+  private groundPlane: THREE.Plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+  private dragStart: THREE.Vector2 | null = null;
+  private dragSnapshot: LevelData | null = null;
+  private lastDragPoint: THREE.Vector2 | null = null;
+
+  // Rebuilds are async, so queue them instead of letting them overlap
+  private isRebuilding: boolean = false;
+  private needsRebuild: boolean = false;
+
+  // Editor-only helpers drawn on top of the level
+  private helpers: THREE.Group = new THREE.Group();
+  private grid: THREE.GridHelper;
+  private teeMarker: THREE.Mesh;
+  private selectionMarker: THREE.Mesh;
+  private wallPreview: THREE.Line;
+
+  private panel: HTMLElement;
+
+  private readonly handleMouseDown = (event: MouseEvent) => this.onMouseDown(event);
+  private readonly handleMouseMove = (event: MouseEvent) => this.onMouseMove(event);
+  private readonly handleMouseUp = (event: MouseEvent) => this.onMouseUp(event);
+  private readonly handleKeyDown = (event: KeyboardEvent) => this.onKeyDown(event);
+  private readonly handlePanelClick = (event: MouseEvent) => this.onPanelClick(event);
+  private readonly handlePanelInput = () => this.onPanelInput();
+  private readonly handleImportChange = () => this.onImportChange();
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    domElement: HTMLElement,
+    levelManager: LevelManager,
+    callbacks: LevelEditorCallbacks
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.domElement = domElement;
+    this.levelManager = levelManager;
+    this.callbacks = callbacks;
+    this.data = this.createBlankLayout();
+
+    this.grid = new THREE.GridHelper(GRID_EXTENT, GRID_EXTENT / GRID_SIZE, 0x444444, 0x888888);
+    this.grid.position.y = 0.01;
+
+    this.teeMarker = new THREE.Mesh(
+      new THREE.CylinderGeometry(0.3, 0.3, 0.04, 24),
+      new THREE.MeshBasicMaterial({ color: 0xffd700 })
+    );
+
+    this.selectionMarker = new THREE.Mesh(
+      new THREE.RingGeometry(0.55, 0.7, 32),
+      new THREE.MeshBasicMaterial({ color: 0x00bfff, side: THREE.DoubleSide })
+    );
+    this.selectionMarker.rotation.x = -Math.PI / 2;
+    this.selectionMarker.visible = false;
+
+    this.wallPreview = new THREE.Line(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ color: 0x00bfff })
+    );
+    this.wallPreview.visible = false;
+
+    this.helpers.add(this.grid, this.teeMarker, this.selectionMarker, this.wallPreview);
+    this.helpers.name = 'editor-helpers';
+
+    this.panel = document.getElementById('editor-panel')!;
+  }
+
+  /**
+   * Show the editor and start editing a fresh layout
+   */
+  async open(): Promise<void> {
+    console.log('🛠️ Opening level editor...');
+
+    this.scene.add(this.helpers);
+    this.panel.classList.remove('hidden');
+    this.setupEventListeners();
+    this.syncPanel();
+    this.setTool('select');
+    await this.rebuild();
+  }
+
+  /**
+   * Tear down the editor and all of its listeners
+   */
+  close(): void {
+    if (this.isPlayTesting) {
+      this.stopPlayTest();
+    }
+
+    this.removeEventListeners();
+    this.panel.classList.add('hidden');
+    this.scene.remove(this.helpers);
+    this.helpers.traverse(obj => {
+      if (obj instanceof THREE.Mesh || obj instanceof THREE.Line) {
+        obj.geometry.dispose();
+        (obj.material as THREE.Material).dispose();
+      }
+    });
+
+    console.log('🛠️ Level editor closed');
+  }
+
+  getIsPlayTesting(): boolean {
+    return this.isPlayTesting;
+  }
+
+  /**
+   * Hand the current layout to the game as a playable hole
+   */
+  startPlayTest(): void {
+    if (this.isPlayTesting) return;
+
+    this.isPlayTesting = true;
+    this.selection = null;
+    this.helpers.visible = false;
+    this.setPanelText('editor-playtest', '⏹ Stop Test');
+    this.setStatus('Play-testing. Sink the ball or press Stop Test to keep editing.');
+    this.callbacks.onPlayTestStart();
+  }
+
+  /**
+   * Return from play-testing to editing
+   */
+  stopPlayTest(): void {
+    if (!this.isPlayTesting) return;
+
+    this.isPlayTesting = false;
+    this.helpers.visible = true;
+    this.setPanelText('editor-playtest', '▶ Play Test');
+    this.setStatus('');
+    this.callbacks.onPlayTestEnd();
+    this.updateHelpers();
+  }
+
+  private createBlankLayout(): LevelData {
+    const levelNumbers = this.levelManager.getAvailableLevels();
+    const nextLevelNumber = levelNumbers.length > 0 ? Math.max(...levelNumbers) + 1 : 1;
+
+    return {
+      version: LEVEL_FORMAT_VERSION,
+      levelNumber: nextLevelNumber,
+      name: 'Custom Hole',
+      description: 'Built in the level editor',
+      par: 3,
+      start: [0, 0.5, 5],
+      cup: { position: [0, 0, -5], radius: 0.4 },
+      floor: { polygon: [] },
+      walls: [],
+      obstacles: []
+    };
+  }
+
+  private setupEventListeners(): void {
+    this.domElement.addEventListener('mousedown', this.handleMouseDown);
+    this.domElement.addEventListener('mousemove', this.handleMouseMove);
+    window.addEventListener('mouseup', this.handleMouseUp);
+    window.addEventListener('keydown', this.handleKeyDown);
+    this.panel.addEventListener('click', this.handlePanelClick);
+    this.panel.addEventListener('input', this.handlePanelInput);
+    document.getElementById('editor-import-input')?.addEventListener('change', this.handleImportChange);
+  }
+
+  private removeEventListeners(): void {
+    this.domElement.removeEventListener('mousedown', this.handleMouseDown);
+    this.domElement.removeEventListener('mousemove', this.handleMouseMove);
+    window.removeEventListener('mouseup', this.handleMouseUp);
+    window.removeEventListener('keydown', this.handleKeyDown);
+    this.panel.removeEventListener('click', this.handlePanelClick);
+    this.panel.removeEventListener('input', this.handlePanelInput);
+    document.getElementById('editor-import-input')?.removeEventListener('change', this.handleImportChange);
+  }
+
+  private onPanelClick(event: MouseEvent): void {
+    const button = (event.target as HTMLElement).closest('button');
+    if (!button) return;
+
+    if (button.dataset.tool) {
+      this.setTool(button.dataset.tool as EditorTool);
+      return;
+    }
+
+    switch (button.id) {
+      case 'editor-rotate-left':
+        this.rotateSelection(-ROTATE_STEP);
+        break;
+      case 'editor-rotate-right':
+        this.rotateSelection(ROTATE_STEP);
+        break;
+      case 'editor-delete':
+        this.deleteSelection();
+        break;
+      case 'editor-playtest':
+        if (this.isPlayTesting) {
+          this.stopPlayTest();
+        } else {
+          this.startPlayTest();
+        }
+        break;
+      case 'editor-new':
+        this.data = this.createBlankLayout();
+        this.selection = null;
+        this.syncPanel();
+        this.rebuild();
+        break;
+      case 'editor-import':
+        (document.getElementById('editor-import-input') as HTMLInputElement).click();
+        break;
+      case 'editor-export':
+        this.exportLayout();
+        break;
+      case 'editor-exit':
+        this.callbacks.onExit();
+        break;
+    }
+  }
+
+  private onPanelInput(): void {
+    const nameInput = document.getElementById('editor-name') as HTMLInputElement;
+    const parInput = document.getElementById('editor-par') as HTMLInputElement;
+
+    if (nameInput.value.trim().length > 0) {
+      this.data.name = nameInput.value.trim();
+    }
+
+    const par = parseInt(parInput.value, 10);
+    if (Number.isInteger(par) && par >= 1) {
+      this.data.par = par;
+    }
+  }
+
+  private syncPanel(): void {
+    (document.getElementById('editor-name') as HTMLInputElement).value = this.data.name;
+    (document.getElementById('editor-par') as HTMLInputElement).value = String(this.data.par);
+  }
+
+  private setTool(tool: EditorTool): void {
+    this.tool = tool;
+    this.panel.querySelectorAll<HTMLButtonElement>('button[data-tool]').forEach(button => {
+      button.classList.toggle('active', button.dataset.tool === tool);
+    });
+  }
+
+  private setStatus(message: string): void {
+    const status = document.getElementById('editor-status');
+    if (status) status.textContent = message;
+  }
+
+  private setPanelText(id: string, text: string): void {
+    const element = document.getElementById(id);
+    if (element) element.textContent = text;
+  }
+
+  /**
+   * Project the mouse onto the ground plane and snap it to the grid
+   */
+  private getGridPoint(event: MouseEvent): THREE.Vector2 | null {
+    const rect = this.domElement.getBoundingClientRect();
+    const pointer = new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+
+    this.raycaster.setFromCamera(pointer, this.camera);
+    const hit = this.raycaster.ray.intersectPlane(this.groundPlane, new THREE.Vector3());
+    if (!hit) return null;
+
+    return new THREE.Vector2(
+      Math.round(hit.x / GRID_SIZE) * GRID_SIZE,
+      Math.round(hit.z / GRID_SIZE) * GRID_SIZE
+    );
+  }
+
+  private onMouseDown(event: MouseEvent): void {
+    if (event.button !== 0 || this.isPlayTesting) return;
+
+    const point = this.getGridPoint(event);
+    if (!point) return;
+
+    this.callbacks.onInteractionStart();
+
+    switch (this.tool) {
+      case 'select':
+        this.selection = this.pick(point);
+        if (this.selection) {
+          this.dragStart = point;
+          this.lastDragPoint = point;
+          this.dragSnapshot = structuredClone(this.data);
+        }
+        this.updateHelpers();
+        break;
+      case 'tee':
+        this.data.start = [point.x, this.data.start[1], point.y];
+        this.selection = { kind: 'tee' };
+        this.rebuild();
+        break;
+      case 'cup':
+        this.data.cup.position = [point.x, this.data.cup.position[1], point.y];
+        this.selection = { kind: 'cup' };
+        this.rebuild();
+        break;
+      case 'wall':
+        // Walls are drawn by dragging from one end to the other
+        this.dragStart = point;
+        this.updateWallPreview(point, point);
+        break;
+      case 'box':
+        this.data.obstacles = this.data.obstacles || [];
+        this.data.obstacles.push({ type: 'box', position: [point.x, 0.3, point.y], size: [1, 0.6, 1], rotation: 0 });
+        this.selection = { kind: 'obstacle', index: this.data.obstacles.length - 1 };
+        this.rebuild();
+        break;
+      case 'cylinder':
+        this.data.obstacles = this.data.obstacles || [];
+        this.data.obstacles.push({ type: 'cylinder', position: [point.x, 0.3, point.y], radius: 0.5, height: 0.6 });
+        this.selection = { kind: 'obstacle', index: this.data.obstacles.length - 1 };
+        this.rebuild();
+        break;
+    }
+  }
+
+  private onMouseMove(event: MouseEvent): void {
+    if (!this.dragStart || this.isPlayTesting) return;
+
+    const point = this.getGridPoint(event);
+    if (!point) return;
+
+    if (this.tool === 'wall') {
+      this.updateWallPreview(this.dragStart, point);
+      return;
+    }
+
+    // Only rebuild when the snapped position actually changes
+    if (this.lastDragPoint && point.equals(this.lastDragPoint)) return;
+    this.lastDragPoint = point;
+
+    if (this.selection && this.dragSnapshot) {
+      this.moveSelection(this.dragSnapshot, point.x - this.dragStart.x, point.y - this.dragStart.y);
+      this.rebuild();
+    }
+  }
+
+  private onMouseUp(event: MouseEvent): void {
+    if (event.button !== 0) return;
+
+    if (this.dragStart && this.tool === 'wall') {
+      const end = this.getGridPoint(event);
+      this.wallPreview.visible = false;
+
+      if (end && !end.equals(this.dragStart)) {
+        this.data.walls.push({ from: [this.dragStart.x, this.dragStart.y], to: [end.x, end.y] });
+        this.selection = { kind: 'wall', index: this.data.walls.length - 1 };
+        this.rebuild();
+      }
+    }
+
+    if (!this.isPlayTesting) {
+      this.callbacks.onInteractionEnd();
+    }
+
+    this.dragStart = null;
+    this.dragSnapshot = null;
+    this.lastDragPoint = null;
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    if (this.isPlayTesting || event.target instanceof HTMLInputElement) return;
+
+    switch (event.key) {
+      case 'q':
+      case 'Q':
+        this.rotateSelection(-ROTATE_STEP);
+        break;
+      case 'e':
+      case 'E':
+        this.rotateSelection(ROTATE_STEP);
+        break;
+      case 'Delete':
+      case 'Backspace':
+        this.deleteSelection();
+        break;
+    }
+  }
+
+  /**
+   * Find the element closest to a point, preferring small things over walls
+   */
+  private pick(point: THREE.Vector2): EditorSelection | null {
+    const distanceTo = ([x, z]: Vec2Data) => point.distanceTo(new THREE.Vector2(x, z));
+
+    if (distanceTo([this.data.start[0], this.data.start[2]]) < PICK_RADIUS) {
+      return { kind: 'tee' };
+    }
+
+    const cup = this.data.cup.position;
+    if (distanceTo([cup[0], cup[2]]) < Math.max(this.data.cup.radius, PICK_RADIUS)) {
+      return { kind: 'cup' };
+    }
+
+    const obstacles = this.data.obstacles || [];
+    for (let i = obstacles.length - 1; i >= 0; i--) {
+      const [x, , z] = obstacles[i].position;
+      if (distanceTo([x, z]) < PICK_RADIUS + 0.25) {
+        return { kind: 'obstacle', index: i };
+      }
+    }
+
+    for (let i = this.data.walls.length - 1; i >= 0; i--) {
+      const wall = this.data.walls[i];
+      const segment = new THREE.Line3(
+        new THREE.Vector3(wall.from[0], 0, wall.from[1]),
+        new THREE.Vector3(wall.to[0], 0, wall.to[1])
+      );
+      const closest = segment.closestPointToPoint(new THREE.Vector3(point.x, 0, point.y), true, new THREE.Vector3());
+      if (distanceTo([closest.x, closest.z]) < PICK_RADIUS) {
+        return { kind: 'wall', index: i };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Move the selected element by an offset from where the drag began
+   */
+  private moveSelection(original: LevelData, dx: number, dz: number): void {
+    if (!this.selection) return;
+
+    switch (this.selection.kind) {
+      case 'tee': {
+        const [x, y, z] = original.start;
+        this.data.start = [x + dx, y, z + dz];
+        break;
+      }
+      case 'cup': {
+        const [x, y, z] = original.cup.position;
+        this.data.cup.position = [x + dx, y, z + dz];
+        break;
+      }
+      case 'wall': {
+        const wall = original.walls[this.selection.index];
+        this.data.walls[this.selection.index] = {
+          ...wall,
+          from: [wall.from[0] + dx, wall.from[1] + dz],
+          to: [wall.to[0] + dx, wall.to[1] + dz]
+        };
+        break;
+      }
+      case 'obstacle': {
+        const [x, y, z] = original.obstacles![this.selection.index].position;
+        this.data.obstacles![this.selection.index].position = [x + dx, y, z + dz];
+        break;
+      }
+    }
+  }
+
+  private rotateSelection(angle: number): void {
+    if (!this.selection || this.isPlayTesting) return;
+
+    if (this.selection.kind === 'wall') {
+      // Spin the wall around its midpoint
+      const wall = this.data.walls[this.selection.index];
+      const midX = (wall.from[0] + wall.to[0]) / 2;
+      const midZ = (wall.from[1] + wall.to[1]) / 2;
+      const rotate = ([x, z]: Vec2Data): Vec2Data => {
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const ox = x - midX;
+        const oz = z - midZ;
+        return [midX + ox * cos - oz * sin, midZ + ox * sin + oz * cos];
+      };
+      wall.from = rotate(wall.from);
+      wall.to = rotate(wall.to);
+    } else if (this.selection.kind === 'obstacle') {
+      const obstacle = this.data.obstacles![this.selection.index];
+      if (obstacle.type === 'cylinder') return; // Cylinders look the same from every angle
+      obstacle.rotation = (obstacle.rotation ?? 0) + angle;
+    } else {
+      return;
+    }
+
+    this.rebuild();
+  }
+
+  private deleteSelection(): void {
+    if (!this.selection || this.isPlayTesting) return;
+
+    if (this.selection.kind === 'wall') {
+      this.data.walls.splice(this.selection.index, 1);
+    } else if (this.selection.kind === 'obstacle') {
+      this.data.obstacles!.splice(this.selection.index, 1);
+    } else {
+      return; // Every hole needs a tee and a cup
+    }
+
+    this.selection = null;
+    this.rebuild();
+  }
+
+  /**
+   * Keep the current floor while the layout still fits on it,
+   * otherwise fit a rectangular floor around everything that has been placed
+   */
+  private updateFloor(): void {
+    const points: Vec2Data[] = [
+      [this.data.start[0], this.data.start[2]],
+      [this.data.cup.position[0], this.data.cup.position[2]],
+      ...this.data.walls.flatMap(wall => [wall.from, wall.to]),
+      ...(this.data.obstacles || []).map(({ position }) => [position[0], position[2]] as Vec2Data)
+    ];
+
+    const polygon = this.data.floor.polygon;
+    if (polygon.length >= 3) {
+      const floorXs = polygon.map(([x]) => x);
+      const floorZs = polygon.map(([, z]) => z);
+      const fits = points.every(([x, z]) =>
+        x >= Math.min(...floorXs) - FLOOR_MARGIN && x <= Math.max(...floorXs) + FLOOR_MARGIN &&
+        z >= Math.min(...floorZs) - FLOOR_MARGIN && z <= Math.max(...floorZs) + FLOOR_MARGIN
+      );
+      if (fits) return;
+    }
+
+    const xs = points.map(([x]) => x);
+    const zs = points.map(([, z]) => z);
+    const minX = Math.min(...xs) - FLOOR_MARGIN;
+    const maxX = Math.max(...xs) + FLOOR_MARGIN;
+    const minZ = Math.min(...zs) - FLOOR_MARGIN;
+    const maxZ = Math.max(...zs) + FLOOR_MARGIN;
+
+    this.data.floor.polygon = [[minX, maxZ], [maxX, maxZ], [maxX, minZ], [minX, minZ]];
+  }
+
+  /**
+   * Reload the preview level from the current layout
+   */
+  private async rebuild(): Promise<void> {
+    if (this.isRebuilding) {
+      this.needsRebuild = true;
+      return;
+    }
+
+    this.isRebuilding = true;
+    do {
+      this.needsRebuild = false;
+      this.updateFloor();
+      // The level keeps a reference to its data, so hand it a copy we won't mutate
+      await this.levelManager.loadCustomLevel(structuredClone(this.data));
+    } while (this.needsRebuild);
+    this.isRebuilding = false;
+
+    this.updateHelpers();
+  }
+
+  private updateHelpers(): void {
+    this.teeMarker.position.set(this.data.start[0], 0.02, this.data.start[2]);
+
+    const position = this.getSelectionPosition();
+    this.selectionMarker.visible = position !== null;
+    if (position) {
+      this.selectionMarker.position.set(position.x, 0.03, position.y);
+    }
+  }
+
+  private getSelectionPosition(): THREE.Vector2 | null {
+    if (!this.selection) return null;
+
+    switch (this.selection.kind) {
+      case 'tee':
+        return new THREE.Vector2(this.data.start[0], this.data.start[2]);
+      case 'cup':
+        return new THREE.Vector2(this.data.cup.position[0], this.data.cup.position[2]);
+      case 'wall': {
+        const wall = this.data.walls[this.selection.index];
+        return new THREE.Vector2((wall.from[0] + wall.to[0]) / 2, (wall.from[1] + wall.to[1]) / 2);
+      }
+      case 'obstacle': {
+        const [x, , z] = this.data.obstacles![this.selection.index].position;
+        return new THREE.Vector2(x, z);
+      }
+    }
+  }
+
+  private updateWallPreview(from: THREE.Vector2, to: THREE.Vector2): void {
+    const positions = new Float32Array([from.x, 0.05, from.y, to.x, 0.05, to.y]);
+    this.wallPreview.geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    this.wallPreview.visible = true;
+  }
+
+  private exportLayout(): void {
+    this.updateFloor();
+
+    const json = JSON.stringify(this.data, null, 2);
+    const blob = new Blob([json], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `level${this.data.levelNumber}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+
+    this.setStatus(`Exported ${link.download}. Drop it in src/levels/data to add it to the course.`);
+    console.log(`💾 Exported level layout ${link.download}`);
+  }
+
+  private async onImportChange(): Promise<void> {
+    const input = document.getElementById('editor-import-input') as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Allow importing the same file twice
+    if (!file) return;
+
+    try {
+      const data = parseLevelData(JSON.parse(await file.text()), file.name);
+      this.data = data;
+      this.data.obstacles = this.data.obstacles || [];
+      this.selection = null;
+      this.syncPanel();
+      await this.rebuild();
+      this.setStatus(`Imported ${file.name}`);
+      console.log(`📂 Imported level layout ${file.name}`);
+    } catch (error) {
+      console.error('❌ Failed to import level layout:', error);
+      this.setStatus(error instanceof Error ? error.message : 'Failed to import level');
+    }
+  }
+}
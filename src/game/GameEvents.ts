@@ -0,0 +1,61 @@
+import * as THREE from 'three';
+import { Ball } from '../Ball';
+import { Level } from '../levels/Level';
+import { Scorecard } from '../scoring/Scorecard';
+import { HazardHit } from '../simulation/Hazards';
+
+/**
+ * Everything gameplay reports, and what comes with it. Ball events carry the ball so
+ * listeners can work out whose it is.
+ */
+export interface GameEventMap {
+  aimStarted: { ball: Ball };
+  aimEnded: { ball: Ball }; // Shot taken or aim dropped
+  shotTaken: { ball: Ball; direction: THREE.Vector3; power: number };
+  wallHit: { ball: Ball; impactSpeed: number }; // Speed into the wall or obstacle (m/s)
+  ballStopped: { ball: Ball };
+  lippedOut: { ball: Ball };
+  hazardEntered: { ball: Ball; hazard: HazardHit };
+  holed: { ball: Ball };
+  levelLoaded: { level: Level; isCustom: boolean };
+  roundFinished: { scorecard: Scorecard }; // Last hole of the round, everyone in
+}
+
+export type GameEventType = keyof GameEventMap;
+
+type GameEventListener<K extends GameEventType> = (event: GameEventMap[K]) => void;
+
+type GameEventListeners = { [K in GameEventType]: GameEventListener<K>[] };
+
+/**
+ * Typed event bus between gameplay and everything that reacts to it (HUD, sound, network).
+ * The ball, its controls and the level manager only emit; they don't know who is listening.
+ */
+export class GameEvents {
+  private listeners: GameEventListeners = {
+    aimStarted: [],
+    aimEnded: [],
+    shotTaken: [],
+    wallHit: [],
+    ballStopped: [],
+    lippedOut: [],
+    hazardEntered: [],
+    holed: [],
+    levelLoaded: [],
+    roundFinished: []
+  };
+
+  on<K extends GameEventType>(type: K, listener: GameEventListener<K>): void {
+    this.listeners[type].push(listener);
+  }
+
+  off<K extends GameEventType>(type: K, listener: GameEventListener<K>): void {
+    const list = this.listeners[type];
+    const index = list.indexOf(listener);
+    if (index >= 0) list.splice(index, 1);
+  }
+
+  emit<K extends GameEventType>(type: K, event: GameEventMap[K]): void {
+    this.listeners[type].slice().forEach(listener => listener(event));
+  }
+}
@@ -0,0 +1,111 @@
+export type GameFlowState =
+  | 'menu' // Welcome screen, editor or an imported replay; nobody is playing a hole
+  | 'levelIntro' // Hole just loaded, its name and par on screen before the first shot
+  | 'aiming' // Waiting for the current player to shoot
+  | 'rolling' // A shot is being played out
+  | 'holeComplete' // Everyone is in the hole; the result is on screen
+  | 'roundSummary' // Last hole done, the full scorecard is on screen
+  | 'paused';
+
+// Where each state may go next. Pausing and resuming go through pause() and resume() instead.
+const TRANSITIONS: Record<GameFlowState, GameFlowState[]> = {
+  menu: ['levelIntro'],
+  levelIntro: ['aiming', 'rolling', 'menu'],
+  aiming: ['rolling', 'holeComplete', 'levelIntro', 'menu'],
+  rolling: ['aiming', 'holeComplete', 'roundSummary', 'levelIntro', 'menu'],
+  holeComplete: ['levelIntro', 'roundSummary', 'menu'],
+  roundSummary: ['levelIntro', 'menu'],
+  paused: ['levelIntro', 'holeComplete', 'roundSummary', 'menu']
+};
+
+const PAUSABLE: GameFlowState[] = ['levelIntro', 'aiming', 'rolling'];
+
+// How long the hole's name stays up before the first shot (seconds)
+export const LEVEL_INTRO_DURATION = 1.5;
+
+/**
+ * Where the game is between the welcome screen and the end of a round. Every change of
+ * state goes through here, so illegal jumps (e.g. shooting from the scorecard) are refused
+ * and logged instead of leaving the game half in one state and half in another.
+ */
+export class GameFlow {
+  private state: GameFlowState = 'menu';
+  private resumeState: GameFlowState | null = null; // What pause() interrupted
+  private introTimeLeft: number = 0;
+  private listeners: ((state: GameFlowState, previous: GameFlowState) => void)[] = [];
+
+  getState(): GameFlowState {
+    return this.state;
+  }
+
+  is(...states: GameFlowState[]): boolean {
+    return states.includes(this.state);
+  }
+
+  /**
+   * Called with every change of state, after it has happened
+   */
+  onChange(listener: (state: GameFlowState, previous: GameFlowState) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Move to another state. Returns false, and stays put, if that isn't allowed from here.
+   * While paused, shots that still come in (online rounds keep playing) only change
+   * what resume() goes back to.
+   */
+  transition(to: GameFlowState): boolean {
+    if (to === this.state) return true;
+
+    if (this.state === 'paused' && (to === 'aiming' || to === 'rolling')) {
+      this.resumeState = to;
+      return true;
+    }
+
+    if (!TRANSITIONS[this.state].includes(to)) {
+      console.warn(`⚠️ Ignoring game state change from ${this.state} to ${to}`);
+      return false;
+    }
+
+    if (to === 'levelIntro') this.introTimeLeft = LEVEL_INTRO_DURATION;
+    this.resumeState = null;
+    this.setState(to);
+    return true;
+  }
+
+  canPause(): boolean {
+    return PAUSABLE.includes(this.state);
+  }
+
+  pause(): boolean {
+    if (!this.canPause()) return false;
+    this.resumeState = this.state;
+    this.setState('paused');
+    return true;
+  }
+
+  resume(): boolean {
+    if (this.state !== 'paused' || !this.resumeState) return false;
+    const state = this.resumeState;
+    this.resumeState = null;
+    this.setState(state);
+    return true;
+  }
+
+  /**
+   * Count down the level intro; call every frame
+   */
+  update(deltaTime: number): void {
+    if (this.state !== 'levelIntro') return;
+
+    this.introTimeLeft -= deltaTime;
+    if (this.introTimeLeft <= 0) this.transition('aiming');
+  }
+
+  private setState(state: GameFlowState): void {
+    const previous = this.state;
+    this.state = state;
+    console.log(`🎮 ${previous} → ${state}`);
+    this.listeners.forEach(listener => listener(state, previous));
+  }
+}
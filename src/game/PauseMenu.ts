@@ -0,0 +1,41 @@
+export interface PauseMenuCallbacks {
+  onResume: () => void;
+  onRestartHole: () => void;
+  onSettings: () => void;
+  onQuit: () => void; // Back to the welcome screen
+}
+
+/**
+ * Menu shown while the game is paused
+ */
+export class PauseMenu {
+  private menu: HTMLElement;
+  private restartButton: HTMLElement;
+  private onlineNote: HTMLElement;
+
+  constructor(callbacks: PauseMenuCallbacks) {
+    this.menu = document.getElementById('pause-menu')!;
+    this.restartButton = document.getElementById('pause-restart-btn')!;
+    this.onlineNote = document.getElementById('pause-online-note')!;
+
+    document.getElementById('pause-resume-btn')?.addEventListener('click', () => callbacks.onResume());
+    this.restartButton.addEventListener('click', () => callbacks.onRestartHole());
+    document.getElementById('pause-settings-btn')?.addEventListener('click', () => callbacks.onSettings());
+    document.getElementById('pause-quit-btn')?.addEventListener('click', () => {
+      if (window.confirm('Quit to the menu? The round in progress is lost.')) callbacks.onQuit();
+    });
+  }
+
+  /**
+   * Online rounds can't be frozen or have a hole restarted by one player, so they get a note instead
+   */
+  show(online: boolean): void {
+    this.restartButton.classList.toggle('hidden', online);
+    this.onlineNote.classList.toggle('hidden', !online);
+    this.menu.classList.remove('hidden');
+  }
+
+  hide(): void {
+    this.menu.classList.add('hidden');
+  }
+}
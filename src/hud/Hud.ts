@@ -0,0 +1,131 @@
+import { describeBinding, InputBindings } from '../input/InputBindings';
+import { Scorecard } from '../scoring/Scorecard';
+
+export type BallState = 'ready' | 'aiming' | 'rolling' | 'holed' | 'waiting';
+
+const BALL_STATE_LABELS: Record<BallState, string> = {
+  ready: '🟢 Ready to putt',
+  aiming: '🎯 Aiming',
+  rolling: '🔵 Rolling',
+  holed: '⛳ In the hole',
+  waiting: '⏳ Waiting'
+};
+
+export interface HudHole {
+  levelNumber: number;
+  name: string;
+  par: number;
+}
+
+export interface HudScore {
+  playerName: string | null; // Only shown when several players share the course
+  strokes: number; // On the current hole
+  roundToPar: number | null; // Over the finished holes; null outside a round, e.g. an editor play-test
+}
+
+/**
+ * The in-game overlay: hole, par, score and ball state in the corner, a power meter
+ * while aiming and the key hints. Each field only touches the page when it changes.
+ */
+export class Hud {
+  private overlay: HTMLElement;
+  private hints: HTMLElement;
+  private powerMeter: HTMLElement;
+  private powerFill: HTMLElement;
+  private powerLabel: HTMLElement;
+  private shown: Map<string, string> = new Map();
+  private power: number | null = null;
+
+  constructor() {
+    this.overlay = document.getElementById('ui-overlay')!;
+    this.hints = document.getElementById('controls')!;
+    this.powerMeter = document.getElementById('power-meter')!;
+    this.powerFill = document.getElementById('power-meter-fill')!;
+    this.powerLabel = document.getElementById('power-meter-label')!;
+  }
+
+  /**
+   * Hidden while something else owns the screen, e.g. the editor or a replay
+   */
+  setVisible(visible: boolean): void {
+    this.overlay.classList.toggle('hidden', !visible);
+    this.hints.classList.toggle('hidden', !visible);
+    if (!visible) this.setPower(null);
+  }
+
+  setHole(hole: HudHole): void {
+    this.setText('hud-hole', `⛳ Hole ${hole.levelNumber}`);
+    this.setText('hud-level-name', hole.name);
+    this.setText('hud-par', String(hole.par));
+  }
+
+  setScore(score: HudScore): void {
+    this.setText('hud-player', score.playerName ? `${score.playerName} · ` : '');
+    this.setText('hud-strokes', String(score.strokes));
+    this.setText('hud-to-par', score.roundToPar === null ? '-' : Scorecard.formatToPar(score.roundToPar));
+  }
+
+  setBallState(state: BallState): void {
+    this.setText('hud-ball-state', BALL_STATE_LABELS[state]);
+  }
+
+  /**
+   * Share of full power being charged, or null to hide the meter
+   */
+  setPower(fraction: number | null): void {
+    const rounded = fraction === null ? null : Math.round(Math.min(Math.max(fraction, 0), 1) * 100);
+    if (rounded === this.power) return;
+    this.power = rounded;
+
+    this.powerMeter.classList.toggle('hidden', rounded === null);
+    if (rounded === null) return;
+
+    this.powerFill.style.width = `${rounded}%`;
+    // Green for a tap, through yellow, to red at full power
+    this.powerFill.style.backgroundColor = `hsl(${120 - rounded * 1.2}, 80%, 45%)`;
+    this.powerLabel.textContent = `Power ${rounded}%`;
+  }
+
+  /**
+   * List the keys that actually do something right now; online rounds can't hop between levels
+   */
+  setKeyHints(bindings: InputBindings, online: boolean): void {
+    const hints: [string, string][] = [
+      ['Drag from ball', 'Aim and set power'],
+      [`${describeBinding(bindings.rotateLeft)} ${describeBinding(bindings.rotateRight)}`, 'Aim'],
+      [describeBinding(bindings.charge), 'Hold to charge, release to shoot'],
+      [describeBinding(bindings.fineAdjust), 'Fine adjust'],
+      [describeBinding(bindings.cancel), 'Cancel shot'],
+      ['C', 'Switch camera']
+    ];
+    if (!online) {
+      hints.push(['V', 'Replay last shot'], ['1 2', 'Load level 1 / 2'], ['N P', 'Next / previous level'], ['R', 'Restart round']);
+    }
+    hints.push(['Esc', 'Pause'], ['M', 'Mute sound'], ['G', 'Show colliders'], ['I', 'Log game info']);
+
+    const key = JSON.stringify(hints);
+    if (this.shown.get('hints') === key) return;
+    this.shown.set('hints', key);
+
+    const list = document.getElementById('key-hints')!;
+    list.innerHTML = '';
+    hints.forEach(([keys, action]) => {
+      const item = document.createElement('div');
+      item.className = 'control-item';
+      const keyLabel = document.createElement('span');
+      keyLabel.className = 'key';
+      keyLabel.textContent = keys;
+      item.appendChild(keyLabel);
+      item.appendChild(document.createTextNode(` ${action}`));
+      list.appendChild(item);
+    });
+  }
+
+  private setText(id: string, text: string): void {
+    if (this.shown.get(id) === text) return;
+    this.shown.set(id, text);
+
+    const element = document.getElementById(id);
+    if (element) element.textContent = text;
+  }
+}
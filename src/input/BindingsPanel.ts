@@ -0,0 +1,170 @@
+import {
+  ActionBinding,
+  DEFAULT_BINDINGS,
+  describeBinding,
+  INPUT_ACTIONS,
+  InputAction,
+  InputBindings
+} from './InputBindings';
+
+/**
+ * Controls screen on the welcome screen: shows what each aiming action is bound to
+ * and rebinds it to the next key or gamepad button pressed. Keeping the result is up to onChange.
+ */
+export class BindingsPanel {
+  private rowsContainer: HTMLElement;
+  private status: HTMLElement | null;
+  private bindings: InputBindings;
+  private onChange: (bindings: InputBindings) => void;
+  private listening: InputAction | null = null;
+  private pollHandle: number | null = null;
+  private heldButtons: Set<number> = new Set();
+
+  private readonly handleKeyDown = (event: KeyboardEvent) => this.onCaptureKey(event);
+
+  constructor(bindings: InputBindings, onChange: (bindings: InputBindings) => void) {
+    this.onChange = onChange;
+    this.bindings = bindings;
+    this.rowsContainer = document.getElementById('bindings-rows')!;
+    this.status = document.getElementById('bindings-status');
+
+    document.getElementById('bindings-reset-btn')?.addEventListener('click', () => {
+      this.stopListening();
+      this.apply(structuredClone(DEFAULT_BINDINGS));
+    });
+    document.getElementById('bindings-done-btn')?.addEventListener('click', () => this.stopListening());
+
+    this.render();
+  }
+
+  getBindings(): InputBindings {
+    return this.bindings;
+  }
+
+  /**
+   * Show bindings that changed elsewhere, e.g. from an imported save
+   */
+  setBindings(bindings: InputBindings): void {
+    this.stopListening();
+    this.bindings = bindings;
+    this.render();
+  }
+
+  private render(): void {
+    this.rowsContainer.innerHTML = '';
+
+    INPUT_ACTIONS.forEach(({ action, label }) => {
+      const row = document.createElement('div');
+      row.className = 'setup-row binding-row';
+
+      const name = document.createElement('span');
+      name.className = 'binding-label';
+      name.textContent = label;
+
+      const button = document.createElement('button');
+      button.className = 'editor-button';
+      button.textContent = this.listening === action ? 'Press a key or button…' : describeBinding(this.bindings[action]);
+      button.addEventListener('click', () => this.startListening(action));
+
+      row.appendChild(name);
+      row.appendChild(button);
+      this.rowsContainer.appendChild(row);
+    });
+  }
+
+  private startListening(action: InputAction): void {
+    this.stopListening();
+    this.listening = action;
+    this.setStatus('Esc to cancel');
+
+    // Buttons already down (e.g. the one that clicked this) shouldn't count as the new binding
+    this.heldButtons = new Set(this.getPressedButtons());
+
+    window.addEventListener('keydown', this.handleKeyDown, true);
+    this.pollHandle = requestAnimationFrame(() => this.pollGamepad());
+    this.render();
+  }
+
+  private stopListening(): void {
+    if (this.listening === null) return;
+
+    this.listening = null;
+    window.removeEventListener('keydown', this.handleKeyDown, true);
+    if (this.pollHandle !== null) {
+      cancelAnimationFrame(this.pollHandle);
+      this.pollHandle = null;
+    }
+    this.setStatus('');
+    this.render();
+  }
+
+  private onCaptureKey(event: KeyboardEvent): void {
+    if (this.listening === null) return;
+
+    // Nothing else should react to the key being captured
+    event.preventDefault();
+    event.stopImmediatePropagation();
+
+    if (event.code === 'Escape') {
+      this.stopListening();
+      return;
+    }
+
+    // A new key replaces the keyboard side of the binding; gamepad buttons are kept
+    this.rebind(this.listening, { ...this.bindings[this.listening], keys: [event.code] });
+  }
+
+  private pollGamepad(): void {
+    if (this.listening === null) return;
+
+    const pressed = this.getPressedButtons();
+    this.heldButtons.forEach(index => {
+      if (!pressed.includes(index)) this.heldButtons.delete(index);
+    });
+
+    const button = pressed.find(index => !this.heldButtons.has(index));
+    if (button !== undefined) {
+      this.rebind(this.listening, { ...this.bindings[this.listening], buttons: [button] });
+      return;
+    }
+
+    this.pollHandle = requestAnimationFrame(() => this.pollGamepad());
+  }
+
+  private rebind(action: InputAction, binding: ActionBinding): void {
+    const bindings = structuredClone(this.bindings);
+
+    // One input drives one action: take it away from wherever it was before
+    INPUT_ACTIONS.forEach(({ action: other }) => {
+      if (other === action) return;
+      bindings[other].keys = bindings[other].keys.filter(code => !binding.keys.includes(code));
+      bindings[other].buttons = bindings[other].buttons.filter(index => !binding.buttons.includes(index));
+    });
+    bindings[action] = binding;
+
+    this.stopListening();
+    this.apply(bindings);
+  }
+
+  private apply(bindings: InputBindings): void {
+    this.bindings = bindings;
+    this.render();
+    this.onChange(bindings);
+  }
+
+  private getPressedButtons(): number[] {
+    if (!navigator.getGamepads) return [];
+
+    const pressed: number[] = [];
+    navigator.getGamepads().forEach(gamepad => {
+      gamepad?.buttons.forEach((button, index) => {
+        if (button.pressed && !pressed.includes(index)) pressed.push(index);
+      });
+    });
+    return pressed;
+  }
+
+  private setStatus(message: string): void {
+    if (this.status) this.status.textContent = message;
+  }
+}
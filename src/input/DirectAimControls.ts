@@ -0,0 +1,167 @@
+import * as THREE from 'three';
+import { BallControls } from '../BallControls';
+import { AIM_AXIS, InputAction, InputBindings } from './InputBindings';
+
+// Radians per second at full tilt
+const ROTATE_SPEED = Math.PI * 0.75;
+
+// Seconds of holding charge to go from minimum to maximum power
+const CHARGE_TIME = 1.5;
+
+// Fine adjust slows both turning and charging down to this fraction
+const FINE_ADJUST_FACTOR = 0.2;
+
+// Ignore stick drift below this
+const STICK_DEAD_ZONE = 0.2;
+
+/**
+ * Keyboard and gamepad aiming, alongside the mouse and touch drag in BallControls:
+ * turn the aim around the ball, hold to charge power and release to shoot
+ */
+export class DirectAimControls {
+  private ballControls: BallControls;
+  private camera: THREE.Camera;
+  private bindings: InputBindings;
+  private pressedKeys: Set<string> = new Set();
+  private aimAngle: number = 0; // Around the Y axis, 0 = towards -Z
+  private isEngaged: boolean = false; // Aim is on screen
+  private isCharging: boolean = false;
+  private power: number = 0;
+  private chargeWasHeld: boolean = false;
+  private cancelWasHeld: boolean = false;
+
+  private readonly handleKeyDown = (event: KeyboardEvent) => this.onKeyDown(event);
+  private readonly handleKeyUp = (event: KeyboardEvent) => this.pressedKeys.delete(event.code);
+  private readonly handleBlur = () => this.pressedKeys.clear();
+
+  constructor(ballControls: BallControls, camera: THREE.Camera, bindings: InputBindings) {
+    this.ballControls = ballControls;
+    this.camera = camera;
+    this.bindings = bindings;
+
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.handleBlur);
+  }
+
+  setCamera(camera: THREE.Camera): void {
+    this.camera = camera;
+  }
+
+  setBindings(bindings: InputBindings): void {
+    this.bindings = bindings;
+  }
+
+  /**
+   * Poll keyboard and gamepad once per rendered frame
+   */
+  update(deltaTime: number): void {
+    if (!this.ballControls.canAim()) {
+      this.disengage();
+      return;
+    }
+
+    const gamepad = this.getGamepad();
+    const fine = this.isPressed('fineAdjust', gamepad) ? FINE_ADJUST_FACTOR : 1;
+
+    // Turning: digital inputs plus the analog stick
+    let turn = 0;
+    if (this.isPressed('rotateLeft', gamepad)) turn += 1;
+    if (this.isPressed('rotateRight', gamepad)) turn -= 1;
+    const stick = gamepad?.axes[AIM_AXIS] ?? 0;
+    if (Math.abs(stick) > STICK_DEAD_ZONE) turn -= stick;
+
+    const chargeHeld = this.isPressed('charge', gamepad);
+    const cancelHeld = this.isPressed('cancel', gamepad);
+
+    if (turn !== 0 || chargeHeld) {
+      this.engage();
+    }
+    if (!this.isEngaged) return;
+
+    this.aimAngle += turn * ROTATE_SPEED * fine * deltaTime;
+
+    if (cancelHeld && !this.cancelWasHeld) {
+      this.isCharging = false;
+      this.power = 0;
+      console.log('✋ Charge cancelled');
+    } else if (chargeHeld && !this.chargeWasHeld) {
+      this.isCharging = true;
+      this.power = this.ballControls.getMinPower();
+    } else if (chargeHeld && this.isCharging) {
+      const maxPower = this.ballControls.getMaxPower();
+      const rate = (maxPower - this.ballControls.getMinPower()) / CHARGE_TIME;
+      this.power = Math.min(this.power + rate * fine * deltaTime, maxPower);
+    } else if (!chargeHeld && this.isCharging) {
+      // Released: take the shot
+      this.isCharging = false;
+      this.chargeWasHeld = false;
+      this.cancelWasHeld = cancelHeld;
+      this.disengage();
+      this.ballControls.fire(this.getDirection(), this.power);
+      return;
+    }
+    this.chargeWasHeld = chargeHeld;
+    this.cancelWasHeld = cancelHeld;
+
+    // Show a short line while only turning, so the direction is visible before charging
+    this.ballControls.showAim(this.getDirection(), this.isCharging ? this.power : this.ballControls.getMinPower());
+  }
+
+  dispose(): void {
+    this.disengage();
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.handleBlur);
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    // Typing into a form field is not aiming
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+
+    this.pressedKeys.add(event.code);
+
+    // Keep the page from scrolling or going back on bound keys
+    const bound = Object.values(this.bindings).some(binding => binding.keys.includes(event.code));
+    if (bound && this.ballControls.canAim()) {
+      event.preventDefault();
+    }
+  }
+
+  private engage(): void {
+    if (this.isEngaged) return;
+
+    // Start out aiming the way the camera looks, or up the screen when it looks straight down
+    const forward = new THREE.Vector3();
+    this.camera.getWorldDirection(forward);
+    if (forward.x * forward.x + forward.z * forward.z < 0.000001) {
+      forward.copy(this.camera.up).applyQuaternion(this.camera.quaternion);
+    }
+    this.aimAngle = Math.atan2(-forward.x, -forward.z);
+    this.isEngaged = true;
+  }
+
+  private disengage(): void {
+    if (!this.isEngaged) return;
+
+    this.isEngaged = false;
+    this.isCharging = false;
+    this.power = 0;
+    this.ballControls.hideAimingVisuals();
+  }
+
+  private getDirection(): THREE.Vector3 {
+    return new THREE.Vector3(-Math.sin(this.aimAngle), 0, -Math.cos(this.aimAngle));
+  }
+
+  private isPressed(action: InputAction, gamepad: Gamepad | null): boolean {
+    const binding = this.bindings[action];
+    if (binding.keys.some(code => this.pressedKeys.has(code))) return true;
+    return gamepad !== null && binding.buttons.some(index => gamepad.buttons[index]?.pressed);
+  }
+
+  private getGamepad(): Gamepad | null {
+    if (!navigator.getGamepads) return null;
+    return navigator.getGamepads().find((gamepad): gamepad is Gamepad => gamepad !== null && gamepad.connected) ?? null;
+  }
+}
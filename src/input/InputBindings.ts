@@ -0,0 +1,63 @@
+import { isInteger, isRecord } from '../validation';
+
+/**
+ * Rebindable inputs for keyboard and gamepad aiming
+ */
+
+export type InputAction = 'rotateLeft' | 'rotateRight' | 'charge' | 'fineAdjust' | 'cancel';
+
+export interface ActionBinding {
+  keys: string[]; // KeyboardEvent.code values
+  buttons: number[]; // Standard gamepad button indices
+}
+
+export type InputBindings = Record<InputAction, ActionBinding>;
+
+export const INPUT_ACTIONS: { action: InputAction; label: string }[] = [
+  { action: 'rotateLeft', label: 'Aim left' },
+  { action: 'rotateRight', label: 'Aim right' },
+  { action: 'charge', label: 'Hold to charge, release to shoot' },
+  { action: 'fineAdjust', label: 'Fine adjust (hold)' },
+  { action: 'cancel', label: 'Cancel shot' }
+];
+
+// Standard mapping: 0 A/Cross, 1 B/Circle, 4 LB, 7 RT, 14/15 d-pad left/right
+export const DEFAULT_BINDINGS: InputBindings = {
+  rotateLeft: { keys: ['ArrowLeft'], buttons: [14] },
+  rotateRight: { keys: ['ArrowRight'], buttons: [15] },
+  charge: { keys: ['Space'], buttons: [0, 7] },
+  fineAdjust: { keys: ['ShiftLeft', 'ShiftRight'], buttons: [4] },
+  cancel: { keys: ['Backspace'], buttons: [1] }
+};
+
+// Left stick, horizontal
+export const AIM_AXIS = 0;
+
+/**
+ * Bindings from saved JSON, falling back to the defaults for anything missing or malformed
+ */
+export function parseBindings(saved: unknown): InputBindings {
+  const bindings = structuredClone(DEFAULT_BINDINGS);
+  if (!isRecord(saved)) return bindings;
+
+  INPUT_ACTIONS.forEach(({ action }) => {
+    const binding = saved[action];
+    if (isRecord(binding) && Array.isArray(binding.keys) && Array.isArray(binding.buttons)) {
+      bindings[action] = {
+        keys: binding.keys.filter((key: unknown): key is string => typeof key === 'string'),
+        buttons: binding.buttons.filter(isInteger)
+      };
+    }
+  });
+
+  return bindings;
+}
+
+/**
+ * Human-readable list of what triggers an action, e.g. "Space / Pad 0"
+ */
+export function describeBinding(binding: ActionBinding): string {
+  const keys = binding.keys.map(code => code.replace(/^Key/, '').replace(/^Digit/, ''));
+  const buttons = binding.buttons.map(button => `Pad ${button}`);
+  return [...keys, ...buttons].join(' / ') || 'Unbound';
+}
@@ -1,103 +1,720 @@
 import * as THREE from 'three';
 import * as CANNON from 'cannon-es';
+import {
+  BarrierSurfaceType,
+  GroundSurfaceType,
+  HazardData,
+  HazardType,
+  LevelData,
+  MovingObstacleData,
+  ObstacleData,
+  SurfaceZoneData,
+  Vec2Data,
+  WallData
+} from './LevelData';
+import { CoursePhysics, CYLINDER_SEGMENTS, DEFAULT_WALL_HEIGHT, DEFAULT_WALL_THICKNESS } from '../simulation/CoursePhysics';
+import { CUP_DEPTH, CUP_WALL_SEGMENTS } from '../simulation/Cup';
+import { FIXED_TIME_STEP } from '../simulation/FixedStepLoop';
+import { isPointInPolygon } from '../simulation/Hazards';
+import { getObstacleGeometry, triangulateFaces } from '../simulation/ObstacleGeometry';
+import {
+  BLADE_THICKNESS,
+  DEFAULT_BLADE_COUNT,
+  DEFAULT_BLADE_WIDTH,
+  getMovingObstaclePose
+} from '../simulation/MovingObstacle';
+import { Terrain } from '../simulation/Terrain';
 
-export interface LevelConfig {
-  levelNumber: number;
-  par: number;
-  name: string;
-  description?: string;
-}
+// How each kind of hazard is painted on the course
+const HAZARD_STYLES: Record<HazardType, { color: number; opacity: number }> = {
+  water: { color: 0x1e88e5, opacity: 0.8 },
+  outOfBounds: { color: 0xc62828, opacity: 0.35 },
+  chasm: { color: 0x111111, opacity: 1 }
+};
+
+// How far below the green a chasm's floor is drawn
+const CHASM_DEPTH = 1;
+
+// Surface zones are drawn just above the green, under the hazards
+const SURFACE_ZONE_LIFT = 0.005;
+
+// Base color and speckles of the textures for sand, ice and rough; carpet is the checkerboard
+const SURFACE_STYLES: Record<Exclude<GroundSurfaceType, 'carpet'>, { base: string; marks: string[] }> = {
+  sand: { base: '#e6c98a', marks: ['#c9a866', '#f3deaa'] },
+  ice: { base: '#d4ecf7', marks: ['#ffffff', '#a9d4ee'] },
+  rough: { base: '#2e7d32', marks: ['#1b5e20', '#43a047'] }
+};
+
+// Walls and static obstacles by what they're made of
+const BARRIER_COLORS: Record<BarrierSurfaceType, { wall: number; obstacle: number }> = {
+  wood: { wall: 0x8b4513, obstacle: 0xa0522d }, // Saddle brown, sienna
+  rubber: { wall: 0xb71c1c, obstacle: 0xc62828 } // Bumper red
+};
 
-export abstract class Level {
+// Resolution of the mask that cuts a sloped green to its outline
+const FLOOR_MASK_PIXELS_PER_UNIT = 48;
+const FLOOR_MASK_MAX_SIZE = 2048;
+
+/**
+ * A single hole built entirely from JSON level data.
+ * Builds the Three.js scene objects; the matching cannon-es bodies come from CoursePhysics.
+ */
+export class Level {
   protected scene: THREE.Scene;
   protected world: CANNON.World;
+  protected data: LevelData;
   protected levelNumber: number;
   protected par: number;
   protected name: string;
   protected description: string;
   protected isLoaded: boolean = false;
-  protected physicsObjects: CANNON.Body[] = [];
+  protected physics: CoursePhysics;
+  protected terrain: Terrain;
+  protected sceneObjects: THREE.Object3D[] = [];
+  private movingObjects: { data: MovingObstacleData; object: THREE.Object3D }[] = [];
+  private startPosition: THREE.Vector3;
+  private goalPosition: THREE.Vector3;
+  private cupRadius: number;
 
-  constructor(scene: THREE.Scene, world: CANNON.World, config: LevelConfig) {
+  constructor(scene: THREE.Scene, world: CANNON.World, data: LevelData) {
     this.scene = scene;
     this.world = world;
-    this.levelNumber = config.levelNumber;
-    this.par = config.par;
-    this.name = config.name;
-    this.description = config.description || '';
+    this.data = data;
+    this.levelNumber = data.levelNumber;
+    this.par = data.par;
+    this.name = data.name;
+    this.description = data.description || '';
+
+    this.startPosition = new THREE.Vector3(...data.start);
+    this.goalPosition = new THREE.Vector3(...data.cup.position);
+    this.cupRadius = data.cup.radius;
+    this.physics = new CoursePhysics(world, data);
+    this.terrain = new Terrain(data);
   }
 
   /**
    * Load the level assets and initialize the level
    */
-  abstract load(): Promise<void>;
+  async load(): Promise<void> {
+    console.log(`Loading ${this.name} (Level ${this.levelNumber})`);
+    console.log(`Description: ${this.description}`);
+    console.log(`Par: ${this.par}`);
+
+    try {
+      this.createCourse();
+      this.createGolfHole();
+      this.data.walls.forEach(wall => this.createWall(wall));
+      (this.data.obstacles || []).forEach(obstacle => this.createObstacle(obstacle));
+      (this.data.surfaces || []).forEach(zone => this.createSurfaceZone(zone));
+      (this.data.hazards || []).forEach(hazard => this.createHazard(hazard));
+      (this.data.movingObstacles || []).forEach(obstacle => this.createMovingObstacle(obstacle));
+      this.physics.load();
+      this.poseMovingObstacles(0);
+      console.log('✅ Course physics added');
+
+      this.setLoaded(true);
+      console.log(`✅ Level ${this.levelNumber} loaded successfully with physics!`);
+    } catch (error) {
+      console.error(`Failed to load Level ${this.levelNumber}:`, error);
+      throw error;
+    }
+  }
 
   /**
    * Clean up level resources when switching levels
    */
   unload(): void {
+    console.log(`Unloading ${this.name}`);
+
     // Remove physics objects
-    this.physicsObjects.forEach(body => {
-      this.world.removeBody(body);
+    this.physics.unload();
+
+    // Remove visuals and free their GPU resources
+    this.sceneObjects.forEach(obj => {
+      this.scene.remove(obj);
+      obj.traverse(child => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose();
+          if (child.material instanceof THREE.Material) {
+            (child.material as THREE.MeshLambertMaterial).map?.dispose();
+            (child.material as THREE.MeshLambertMaterial).alphaMap?.dispose();
+            child.material.dispose();
+          }
+        }
+      });
     });
-    this.physicsObjects = [];
+    this.sceneObjects = [];
+    this.movingObjects = [];
+
     this.setLoaded(false);
+    console.log(`✅ Level ${this.levelNumber} unloaded`);
   }
 
   /**
    * Get the starting position for the golf ball
    */
-  abstract getStartPosition(): THREE.Vector3;
+  getStartPosition(): THREE.Vector3 {
+    return this.startPosition.clone();
+  }
 
   /**
    * Get the goal position (hole location)
    */
-  abstract getGoalPosition(): THREE.Vector3;
+  getGoalPosition(): THREE.Vector3 {
+    return this.goalPosition.clone();
+  }
 
   /**
-   * Check if the ball has reached the goal
+   * Get the radius of the cup opening
    */
-  abstract isGoalReached(ballPosition: THREE.Vector3): boolean;
+  getCupRadius(): number {
+    return this.cupRadius;
+  }
 
   /**
-   * Add physics collision surfaces for the level
+   * Height of the green across the course
    */
-  protected addPhysicsBody(body: CANNON.Body): void {
-    this.world.addBody(body);
-    this.physicsObjects.push(body);
+  getTerrain(): Terrain {
+    return this.terrain;
   }
 
   /**
-   * Create physics collision surface for a mesh
+   * Advance the course (its moving obstacles) by one physics step; call right before the world steps
    */
-  protected createCollisionSurface(mesh: THREE.Mesh): CANNON.Body {
-    // Create a static physics body for collision
-    const body = new CANNON.Body({ 
-      mass: 0, // mass 0 = static
-      material: new CANNON.Material({
-        friction: 0.4,
-        restitution: 0.8 // Match ball's restitution for proper bouncing
-      })
+  step(deltaTime: number): void {
+    this.physics.step(deltaTime);
+  }
+
+  getCourseTime(): number {
+    return this.physics.getTime();
+  }
+
+  /**
+   * Jump the moving obstacles to a point in their cycle, bodies and meshes both
+   */
+  setCourseTime(time: number): void {
+    this.physics.setTime(time);
+    this.poseMovingObstacles(time);
+  }
+
+  /**
+   * Draw the moving obstacles between the last two physics steps, like Ball.syncMesh
+   */
+  syncMovingObstacles(alpha: number): void {
+    this.poseMovingObstacles(this.physics.getTime() - (1 - alpha) * FIXED_TIME_STEP);
+  }
+
+  /**
+   * Put the moving obstacle meshes where they are at a time, without touching the bodies (replays)
+   */
+  poseMovingObstacles(time: number): void {
+    this.movingObjects.forEach(({ data, object }) => {
+      const { position, quaternion } = getMovingObstaclePose(data, time);
+      object.position.set(position.x, position.y, position.z);
+      object.quaternion.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
     });
-    
-    // Create box shape based on mesh geometry
-    if (mesh.geometry instanceof THREE.BoxGeometry) {
-      const box = mesh.geometry.parameters;
-      const shape = new CANNON.Box(new CANNON.Vec3(box.width/2, box.height/2, box.depth/2));
-      body.addShape(shape);
+  }
+
+  /**
+   * Add a visual object that belongs to this level
+   */
+  protected addSceneObject(object: THREE.Object3D): void {
+    this.scene.add(object);
+    this.sceneObjects.push(object);
+  }
+
+  /**
+   * Prefix for the names of every object this level adds to the scene
+   */
+  protected objectName(suffix: string): string {
+    return `level${this.levelNumber}-${suffix}`;
+  }
+
+  private createCheckeredTexture(): THREE.Texture {
+    // Create a canvas for the checkered pattern
+    const canvas = document.createElement('canvas');
+    const size = 512; // Texture resolution
+    canvas.width = size;
+    canvas.height = size;
+
+    const context = canvas.getContext('2d')!;
+    const checkSize = size / 8; // 8x8 checkerboard for bigger squares
+
+    // Define the two lime green colors
+    const darkGreen = '#32cd32';  // Lime green (darker shade)
+    const lightGreen = '#90ee90'; // Light lime green
+
+    for (let x = 0; x < 8; x++) {
+      for (let y = 0; y < 8; y++) {
+        // Alternate colors in checkerboard pattern
+        const isEvenCheck = (x + y) % 2 === 0;
+        context.fillStyle = isEvenCheck ? darkGreen : lightGreen;
+        context.fillRect(x * checkSize, y * checkSize, checkSize, checkSize);
+      }
+    }
+
+    // Create Three.js texture from canvas
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    // Shape UVs are in world units, so one texture spans 10 units (1.25 per check)
+    texture.repeat.set(0.1, 0.1);
+
+    return texture;
+  }
+
+  /**
+   * Tileable texture for a ground surface: a base color with speckles (sand), streaks (ice) or blades (rough)
+   */
+  private createSurfaceTexture(surface: GroundSurfaceType): THREE.Texture {
+    if (surface === 'carpet') return this.createCheckeredTexture();
+
+    const style = SURFACE_STYLES[surface];
+    const canvas = document.createElement('canvas');
+    const size = 256;
+    canvas.width = size;
+    canvas.height = size;
+
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = style.base;
+    context.fillRect(0, 0, size, size);
+
+    const markCount = surface === 'ice' ? 40 : 1200;
+    for (let i = 0; i < markCount; i++) {
+      const x = Math.random() * size;
+      const y = Math.random() * size;
+      context.fillStyle = context.strokeStyle = style.marks[i % style.marks.length];
+
+      if (surface === 'sand') {
+        context.fillRect(x, y, 2, 2);
+      } else if (surface === 'ice') {
+        const length = 20 + Math.random() * 40;
+        context.lineWidth = 1;
+        context.beginPath();
+        context.moveTo(x, y);
+        context.lineTo(x + length, y + length * 0.3);
+        context.stroke();
+      } else {
+        context.lineWidth = 1.5;
+        context.beginPath();
+        context.moveTo(x, y);
+        context.lineTo(x + Math.random() * 4 - 2, y - 4 - Math.random() * 4);
+        context.stroke();
+      }
+    }
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    texture.repeat.set(0.25, 0.25); // One texture per 4 units
+    return texture;
+  }
+
+  /**
+   * Material for a stretch of ground; ice gets a glossy finish
+   */
+  private createGroundMaterial(surface: GroundSurfaceType, alphaMap?: THREE.Texture): THREE.Material {
+    const parameters = {
+      map: this.createSurfaceTexture(surface),
+      alphaMap: alphaMap ?? null,
+      alphaTest: alphaMap ? 0.5 : 0
+    };
+
+    if (surface === 'ice') {
+      return new THREE.MeshPhongMaterial({ ...parameters, shininess: 90, specular: 0xffffff });
+    }
+    return new THREE.MeshLambertMaterial(parameters);
+  }
+
+  private createCupOutline(): THREE.Path {
+    const cupOutline = new THREE.Path();
+    cupOutline.absarc(this.goalPosition.x, -this.goalPosition.z, this.cupRadius, 0, Math.PI * 2, true);
+    return cupOutline;
+  }
+
+  private createCourse(): void {
+    if (!this.terrain.isFlat()) {
+      this.createSlopedCourse();
+      return;
+    }
+
+    // Shapes live in the XY plane and get rotated flat, so world Z maps to -Y
+    const outline = this.data.floor.polygon.map(([x, z]) => new THREE.Vector2(x, -z));
+    const shape = new THREE.Shape(outline);
+
+    // Cut out the cup so the ball can actually fall through
+    shape.holes.push(this.createCupOutline());
+
+    // Chasms are open too
+    (this.data.hazards || [])
+      .filter(hazard => hazard.type === 'chasm')
+      .forEach(hazard => shape.holes.push(new THREE.Path(hazard.polygon.map(([x, z]) => new THREE.Vector2(x, -z)))));
+
+    const courseGeometry = new THREE.ShapeGeometry(shape, 16);
+    const courseMaterial = this.createGroundMaterial(this.data.floor.surface ?? 'carpet');
+    const course = new THREE.Mesh(courseGeometry, courseMaterial);
+    course.rotation.x = -Math.PI / 2;
+    course.position.y = this.goalPosition.y;
+    course.receiveShadow = true;
+    course.name = this.objectName('course');
+    this.addSceneObject(course);
+
+    console.log('✅ Course with hole created successfully');
+  }
+
+  /**
+   * A green with a heightfield: the grid is drawn triangle for triangle like the physics sees it,
+   * then cut to the floor outline (and the cup and chasms) by an alpha mask
+   */
+  private createSlopedCourse(): void {
+    const course = new THREE.Mesh(
+      this.createTerrainGeometry(),
+      this.createGroundMaterial(this.data.floor.surface ?? 'carpet', this.createTerrainMask(this.data.floor.polygon))
+    );
+    course.receiveShadow = true;
+    course.name = this.objectName('course');
+    this.addSceneObject(course);
+
+    console.log('✅ Sloped course with hole created successfully');
+  }
+
+  /**
+   * The heightfield grid as a mesh, with UVs in world units like the flat course's shape UVs
+   */
+  private createTerrainGeometry(): THREE.BufferGeometry {
+    const { origin, cellSize, heights } = this.terrain.getHeightfield()!;
+    const rows = heights.length;
+    const columns = heights[0].length;
+
+    const positions: number[] = [];
+    const uvs: number[] = [];
+    const indices: number[] = [];
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const x = origin[0] + column * cellSize;
+        const z = origin[1] + row * cellSize;
+        positions.push(x, heights[row][column], z);
+        uvs.push(x, -z);
+      }
+    }
+    for (let row = 0; row < rows - 1; row++) {
+      for (let column = 0; column < columns - 1; column++) {
+        const i00 = row * columns + column;
+        const i10 = i00 + 1;
+        const i01 = i00 + columns;
+        const i11 = i01 + 1;
+        // Same diagonal as Terrain.getHeightAt and CANNON.Heightfield
+        indices.push(i00, i11, i10, i00, i01, i11);
+      }
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+    geometry.setIndex(indices);
+    geometry.computeVertexNormals();
+    return geometry;
+  }
+
+  /**
+   * Alpha mask over the heightfield grid: white inside area, black outside it and over the cup and chasms
+   */
+  private createTerrainMask(area: Vec2Data[]): THREE.Texture {
+    const { origin, cellSize, heights } = this.terrain.getHeightfield()!;
+    const width = (heights[0].length - 1) * cellSize;
+    const depth = (heights.length - 1) * cellSize;
+    const scale = Math.min(FLOOR_MASK_PIXELS_PER_UNIT, FLOOR_MASK_MAX_SIZE / Math.max(width, depth));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width * scale);
+    canvas.height = Math.ceil(depth * scale);
+    const context = canvas.getContext('2d')!;
+
+    // The texture is flipped on upload, so canvas rows run along +z from the grid origin
+    const tracePolygon = (polygon: Vec2Data[]) => {
+      context.beginPath();
+      polygon.forEach(([x, z], i) => {
+        const px = (x - origin[0]) * scale;
+        const py = (z - origin[1]) * scale;
+        if (i === 0) context.moveTo(px, py);
+        else context.lineTo(px, py);
+      });
+      context.closePath();
+      context.fill();
+    };
+
+    context.fillStyle = '#000000';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.fillStyle = '#ffffff';
+    tracePolygon(area);
+
+    context.fillStyle = '#000000';
+    context.beginPath();
+    context.arc(
+      (this.goalPosition.x - origin[0]) * scale,
+      (this.goalPosition.z - origin[1]) * scale,
+      this.cupRadius * scale,
+      0,
+      Math.PI * 2
+    );
+    context.fill();
+    (this.data.hazards || []).filter(hazard => hazard.type === 'chasm').forEach(hazard => tracePolygon(hazard.polygon));
+
+    // The grid's UVs are world units; map its extent onto the whole mask
+    const mask = new THREE.CanvasTexture(canvas);
+    mask.repeat.set(1 / width, 1 / depth);
+    mask.offset.set(-origin[0] / width, (origin[1] + depth) / depth);
+    return mask;
+  }
+
+  /**
+   * A patch of sand, ice, rough or carpet painted over the green
+   */
+  private createSurfaceZone(zone: SurfaceZoneData): void {
+    let mesh: THREE.Mesh;
+
+    if (this.terrain.isFlat()) {
+      const shape = new THREE.Shape(zone.polygon.map(([x, z]) => new THREE.Vector2(x, -z)));
+      if (isPointInPolygon(this.goalPosition.x, this.goalPosition.z, zone.polygon)) {
+        shape.holes.push(this.createCupOutline());
+      }
+
+      mesh = new THREE.Mesh(new THREE.ShapeGeometry(shape, 16), this.createGroundMaterial(zone.type));
+      mesh.rotation.x = -Math.PI / 2;
+      mesh.position.y = this.goalPosition.y + SURFACE_ZONE_LIFT;
     } else {
-      // Default to box shape for other geometries
-      const bbox = new THREE.Box3().setFromObject(mesh);
-      const size = new THREE.Vector3();
-      bbox.getSize(size);
-      const shape = new CANNON.Box(new CANNON.Vec3(size.x/2, size.y/2, size.z/2));
-      body.addShape(shape);
+      // Same grid as the green so the patch follows every slope, masked to the zone
+      mesh = new THREE.Mesh(this.createTerrainGeometry(), this.createGroundMaterial(zone.type, this.createTerrainMask(zone.polygon)));
+      mesh.position.y = SURFACE_ZONE_LIFT;
     }
-    
-    body.position.copy(mesh.position as any);
-    body.quaternion.copy(mesh.quaternion as any);
-    
-    return body;
+
+    mesh.receiveShadow = true;
+    mesh.name = this.objectName(`surface-${this.sceneObjects.length}`);
+    this.addSceneObject(mesh);
+  }
+
+  private createWall(wall: WallData): void {
+    const height = wall.height ?? DEFAULT_WALL_HEIGHT;
+    const thickness = wall.thickness ?? DEFAULT_WALL_THICKNESS;
+    const [fromX, fromZ] = wall.from;
+    const [toX, toZ] = wall.to;
+    const dx = toX - fromX;
+    const dz = toZ - fromZ;
+
+    // Reach down to the lowest ground under the wall, like its collision box
+    const [bottom, top] = this.terrain.getHeightRange(wall.from, wall.to);
+    const span = top - bottom + height;
+
+    const wallMaterial = new THREE.MeshLambertMaterial({ color: BARRIER_COLORS[wall.surface ?? 'wood'].wall });
+    const border = new THREE.Mesh(
+      new THREE.BoxGeometry(thickness, span, Math.sqrt(dx * dx + dz * dz)),
+      wallMaterial
+    );
+
+    // Center on the segment and turn the box's length (local Z) along it
+    border.position.set((fromX + toX) / 2, bottom + span / 2, (fromZ + toZ) / 2);
+    border.rotation.y = Math.atan2(dx, dz);
+    border.castShadow = true;
+    border.name = this.objectName(`wall-${this.sceneObjects.length}`);
+    this.addSceneObject(border);
+  }
+
+  private createObstacle(obstacle: ObstacleData): void {
+    const obstacleMaterial = new THREE.MeshLambertMaterial({ color: BARRIER_COLORS[obstacle.surface ?? 'wood'].obstacle });
+    let mesh: THREE.Mesh;
+
+    switch (obstacle.type) {
+      case 'box':
+        mesh = new THREE.Mesh(new THREE.BoxGeometry(...obstacle.size), obstacleMaterial);
+        mesh.rotation.y = obstacle.rotation ?? 0;
+        break;
+      case 'cylinder':
+        mesh = new THREE.Mesh(
+          new THREE.CylinderGeometry(obstacle.radius, obstacle.radius, obstacle.height, CYLINDER_SEGMENTS),
+          obstacleMaterial
+        );
+        break;
+      case 'prism':
+      case 'mesh': {
+        const { vertices, faces } = getObstacleGeometry(obstacle);
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices.flat(), 3));
+        geometry.setIndex(triangulateFaces(faces));
+
+        // Unshared vertices so every face is lit flat, like the hard edges it collides with
+        const flatGeometry = geometry.toNonIndexed();
+        geometry.dispose();
+        flatGeometry.computeVertexNormals();
+
+        mesh = new THREE.Mesh(flatGeometry, obstacleMaterial);
+        mesh.rotation.y = obstacle.rotation ?? 0;
+        break;
+      }
+    }
+
+    mesh.position.set(...obstacle.position);
+    mesh.castShadow = true;
+    mesh.name = this.objectName(`obstacle-${this.sceneObjects.length}`);
+    this.addSceneObject(mesh);
+  }
+
+  /**
+   * Meshes of a moving obstacle, built around its pose origin like the parts of its body
+   */
+  private createMovingObstacle(obstacle: MovingObstacleData): void {
+    const group = new THREE.Group();
+    const bodyMaterial = new THREE.MeshLambertMaterial({ color: 0xd84315 }); // Deep orange, so movers stand out
+    const trimMaterial = new THREE.MeshLambertMaterial({ color: 0xfafafa });
+
+    const addPart = (geometry: THREE.BufferGeometry, material: THREE.Material, position?: THREE.Vector3, angleZ: number = 0) => {
+      const mesh = new THREE.Mesh(geometry, material);
+      if (position) mesh.position.copy(position);
+      mesh.rotation.z = angleZ;
+      mesh.castShadow = true;
+      group.add(mesh);
+    };
+
+    switch (obstacle.type) {
+      case 'windmill': {
+        const count = obstacle.bladeCount ?? DEFAULT_BLADE_COUNT;
+        const width = obstacle.bladeWidth ?? DEFAULT_BLADE_WIDTH;
+        for (let i = 0; i < count; i++) {
+          const bladeAngle = (i / count) * Math.PI * 2;
+          const offset = new THREE.Vector3(-Math.sin(bladeAngle), Math.cos(bladeAngle), 0).multiplyScalar(obstacle.bladeLength / 2);
+          addPart(
+            new THREE.BoxGeometry(width, obstacle.bladeLength, BLADE_THICKNESS),
+            i % 2 === 0 ? bodyMaterial : trimMaterial,
+            offset,
+            bladeAngle
+          );
+        }
+        // Hub, with its axis along the blades' axle
+        const hub = new THREE.Mesh(new THREE.CylinderGeometry(0.15, 0.15, BLADE_THICKNESS * 3, 16), trimMaterial);
+        hub.rotation.x = Math.PI / 2;
+        group.add(hub);
+        break;
+      }
+      case 'slider':
+      case 'gate':
+        addPart(new THREE.BoxGeometry(...obstacle.size), bodyMaterial);
+        break;
+      case 'pendulum':
+        addPart(new THREE.CylinderGeometry(0.03, 0.03, obstacle.length, 8), trimMaterial, new THREE.Vector3(0, -obstacle.length / 2, 0));
+        addPart(new THREE.SphereGeometry(obstacle.bobRadius, 20, 14), bodyMaterial, new THREE.Vector3(0, -obstacle.length, 0));
+        break;
+    }
+
+    group.name = this.objectName(`moving-obstacle-${this.movingObjects.length}`);
+    this.addSceneObject(group);
+    this.movingObjects.push({ data: obstacle, object: group });
+  }
+
+  private createHazard(hazard: HazardData): void {
+    const outline = hazard.polygon.map(([x, z]) => new THREE.Vector2(x, -z));
+    const style = HAZARD_STYLES[hazard.type];
+    const geometry = new THREE.ShapeGeometry(new THREE.Shape(outline));
+
+    // Lay it over the green; the shape's local z ends up as world height once turned flat
+    const lift = hazard.type === 'chasm' ? -CHASM_DEPTH : 0.01;
+    const positions = geometry.getAttribute('position');
+    for (let i = 0; i < positions.count; i++) {
+      positions.setZ(i, this.terrain.getHeightAt(positions.getX(i), -positions.getY(i)) + lift);
+    }
+    geometry.computeBoundingSphere();
+
+    const mesh = new THREE.Mesh(
+      geometry,
+      new THREE.MeshLambertMaterial({
+        color: style.color,
+        transparent: style.opacity < 1,
+        opacity: style.opacity
+      })
+    );
+
+    // Chasms are drawn as a pit floor below the green; the rest sit just on top of it
+    mesh.rotation.x = -Math.PI / 2;
+    mesh.receiveShadow = true;
+    mesh.name = this.objectName(`hazard-${this.sceneObjects.length}`);
+    this.addSceneObject(mesh);
+  }
+
+  private createGolfHole(): void {
+    const holeRadius = this.cupRadius;
+    const holeDepth = CUP_DEPTH; // Same liner the ball collides with
+    const groundY = this.goalPosition.y;
+
+    console.log(`Creating hole at position: ${this.goalPosition.x}, ${this.goalPosition.y}, ${this.goalPosition.z}`);
+
+    // Create a white cylindrical wall for the hole sides
+    const holeWallGeometry = new THREE.CylinderGeometry(holeRadius, holeRadius, holeDepth, CUP_WALL_SEGMENTS, 1, true);
+    const holeWallMaterial = new THREE.MeshLambertMaterial({
+      color: 0xffffff, // White walls
+      side: THREE.DoubleSide
+    });
+    const holeWall = new THREE.Mesh(holeWallGeometry, holeWallMaterial);
+    holeWall.position.copy(this.goalPosition);
+    holeWall.position.y = groundY - holeDepth / 2; // Center the cylinder so top is at ground level
+    holeWall.name = this.objectName('hole-wall');
+    this.addSceneObject(holeWall);
+
+    // Create a much more visible white ring at ground level
+    const holeRingGeometry = new THREE.RingGeometry(holeRadius, holeRadius + 0.1, 16);
+    const holeRingMaterial = new THREE.MeshLambertMaterial({
+      color: 0xffffff,
+      side: THREE.DoubleSide
+    });
+    const holeRing = new THREE.Mesh(holeRingGeometry, holeRingMaterial);
+    holeRing.position.copy(this.goalPosition);
+    holeRing.position.y = groundY + 0.02; // Slightly above ground level
+    holeRing.rotation.x = -Math.PI / 2; // Rotate to lie flat
+    holeRing.name = this.objectName('hole-ring');
+    this.addSceneObject(holeRing);
+
+    // Create dark bottom of the hole - larger and more visible
+    const holeBottomGeometry = new THREE.CircleGeometry(holeRadius, CUP_WALL_SEGMENTS);
+    const holeBottomMaterial = new THREE.MeshLambertMaterial({ color: 0x000000 }); // Pure black for contrast
+    const holeBottom = new THREE.Mesh(holeBottomGeometry, holeBottomMaterial);
+    holeBottom.position.copy(this.goalPosition);
+    holeBottom.position.y = groundY - holeDepth + 0.01; // At the bottom of the hole
+    holeBottom.rotation.x = -Math.PI / 2; // Rotate to lie flat
+    holeBottom.name = this.objectName('hole-bottom');
+    this.addSceneObject(holeBottom);
+
+    // Create flag pole
+    const poleGeometry = new THREE.CylinderGeometry(0.02, 0.02, 2, 8);
+    const poleMaterial = new THREE.MeshLambertMaterial({ color: 0x444444 }); // Dark gray pole
+    const pole = new THREE.Mesh(poleGeometry, poleMaterial);
+    pole.position.copy(this.goalPosition);
+    pole.position.x += holeRadius + 0.1; // Position slightly outside the hole
+    pole.position.y = groundY + 1; // Half the pole height above ground
+    pole.name = this.objectName('flag-pole');
+    this.addSceneObject(pole);
+
+    // Create flag with the hole number painted on it
+    const canvas = document.createElement('canvas');
+    canvas.width = 128;
+    canvas.height = 128;
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#ff0000';
+    context.fillRect(0, 0, 128, 128);
+    context.fillStyle = '#ffffff';
+    context.font = 'bold 80px Arial';
+    context.textAlign = 'center';
+    context.fillText(String(this.levelNumber), 64, 80);
+
+    const flagGeometry = new THREE.PlaneGeometry(0.4, 0.3);
+    const flagMaterial = new THREE.MeshLambertMaterial({
+      map: new THREE.CanvasTexture(canvas),
+      side: THREE.DoubleSide
+    });
+    const flag = new THREE.Mesh(flagGeometry, flagMaterial);
+    flag.position.copy(pole.position);
+    flag.position.x += 0.2; // Offset from pole
+    flag.position.y += 0.5; // Position in upper part of pole
+    flag.name = this.objectName('flag');
+    this.addSceneObject(flag);
+
+    console.log(`✅ Golf hole with flag ${this.levelNumber} added`);
   }
 
   // Getter methods
@@ -117,6 +734,10 @@ export abstract class Level {
     return this.description;
   }
 
+  getData(): LevelData {
+    return this.data;
+  }
+
   getIsLoaded(): boolean {
     return this.isLoaded;
   }
@@ -124,4 +745,4 @@ export abstract class Level {
   protected setLoaded(loaded: boolean): void {
     this.isLoaded = loaded;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,391 @@
+import { isInteger, isNumber, isOneOf, isRecord } from '../validation';
+
+export interface LevelConfig {
+  levelNumber: number;
+  par: number;
+  name: string;
+  description?: string;
+}
+
+/**
+ * Current version of the JSON level format.
+ * Bump this whenever the schema changes in a way older files can't satisfy.
+ */
+export const LEVEL_FORMAT_VERSION = 1;
+
+// [x, y, z] in world units
+export type Vec3Data = [number, number, number];
+
+// [x, z] on the ground plane
+export type Vec2Data = [number, number];
+
+export interface CupData {
+  position: Vec3Data;
+  radius: number;
+}
+
+// What the ball rolls on, and what it bounces off
+export type GroundSurfaceType = 'carpet' | 'sand' | 'ice' | 'rough';
+export type BarrierSurfaceType = 'wood' | 'rubber';
+
+export const GROUND_SURFACE_TYPES: GroundSurfaceType[] = ['carpet', 'sand', 'ice', 'rough'];
+export const BARRIER_SURFACE_TYPES: BarrierSurfaceType[] = ['wood', 'rubber'];
+
+export interface HeightfieldData {
+  origin: Vec2Data; // [x, z] of heights[0][0]
+  cellSize: number; // Distance between neighbouring grid points
+  heights: number[][]; // heights[row][column]; rows step along +z, columns along +x
+}
+
+export interface FloorData {
+  // Outline of the playable green, walked in order on the ground plane
+  polygon: Vec2Data[];
+  // Slopes, ramps and tiers. Without it the green is flat at y=0.
+  heightfield?: HeightfieldData;
+  surface?: GroundSurfaceType; // Carpet by default
+}
+
+export interface SurfaceZoneData {
+  type: GroundSurfaceType;
+  // Area of the zone on the ground plane
+  polygon: Vec2Data[];
+}
+
+export interface WallData {
+  // Centerline of the wall on the ground plane
+  from: Vec2Data;
+  to: Vec2Data;
+  height?: number;
+  thickness?: number;
+  surface?: BarrierSurfaceType; // Wood by default
+}
+
+export interface BoxObstacleData {
+  type: 'box';
+  position: Vec3Data;
+  size: Vec3Data;
+  rotation?: number; // Rotation around Y in radians
+  surface?: BarrierSurfaceType;
+}
+
+export interface CylinderObstacleData {
+  type: 'cylinder';
+  position: Vec3Data;
+  radius: number;
+  height: number;
+  surface?: BarrierSurfaceType;
+}
+
+export interface PrismObstacleData {
+  type: 'prism';
+  position: Vec3Data; // Center of the prism
+  points: Vec2Data[]; // Footprint around position, on the ground plane; may be concave
+  height: number;
+  rotation?: number; // Rotation around Y in radians
+  surface?: BarrierSurfaceType;
+}
+
+export interface MeshObstacleData {
+  type: 'mesh';
+  position: Vec3Data;
+  vertices: Vec3Data[]; // Relative to position
+  faces: number[][]; // Convex polygons of vertex indices, counter-clockwise seen from outside
+  convex?: boolean; // Collide as a convex hull instead of a triangle mesh; only for convex solids
+  rotation?: number; // Rotation around Y in radians
+  surface?: BarrierSurfaceType;
+}
+
+export type ObstacleData = BoxObstacleData | CylinderObstacleData | PrismObstacleData | MeshObstacleData;
+
+// Timing shared by every moving obstacle: one full cycle takes period seconds of simulation time,
+// and phase (a fraction of a cycle) shifts where in that cycle it starts
+interface MotionTiming {
+  period: number;
+  phase?: number;
+}
+
+export interface WindmillData extends MotionTiming {
+  type: 'windmill';
+  position: Vec3Data; // Hub of the blades
+  bladeLength: number;
+  bladeWidth?: number;
+  bladeCount?: number;
+  rotation?: number; // Rotation around Y in radians; at 0 the blades turn in the XY plane
+}
+
+export interface SliderData extends MotionTiming {
+  type: 'slider';
+  position: Vec3Data; // One end of the track
+  size: Vec3Data;
+  travel: Vec2Data; // Offset from position to the other end, on the ground plane
+  rotation?: number;
+}
+
+export interface PendulumData extends MotionTiming {
+  type: 'pendulum';
+  pivot: Vec3Data;
+  length: number; // Pivot to the center of the bob
+  bobRadius: number;
+  amplitude?: number; // Largest swing either side, in radians
+  rotation?: number; // Rotation around Y in radians; at 0 the bob swings along X
+}
+
+export interface GateData extends MotionTiming {
+  type: 'gate';
+  position: Vec3Data; // Center the bar turns around
+  size: Vec3Data; // Length (along X), height and thickness of the bar
+}
+
+export type MovingObstacleData = WindmillData | SliderData | PendulumData | GateData;
+
+export type HazardType = 'water' | 'outOfBounds' | 'chasm';
+
+export const HAZARD_TYPES: HazardType[] = ['water', 'outOfBounds', 'chasm'];
+
+export interface HazardData {
+  type: HazardType;
+  // Area of the hazard on the ground plane
+  polygon: Vec2Data[];
+  penalty?: number; // Strokes added, 1 by default
+  dropZone?: Vec3Data; // Where the ball is put back; otherwise where it last came to rest
+}
+
+export interface LevelData extends LevelConfig {
+  version: number;
+  start: Vec3Data;
+  cup: CupData;
+  floor: FloorData;
+  walls: WallData[];
+  obstacles?: ObstacleData[];
+  hazards?: HazardData[];
+  movingObstacles?: MovingObstacleData[];
+  surfaces?: SurfaceZoneData[];
+}
+
+function fail(source: string, message: string): never {
+  throw new Error(`Invalid level data in ${source}: ${message}`);
+}
+
+function isVec2(value: unknown): value is Vec2Data {
+  return Array.isArray(value) && value.length === 2 && value.every(isNumber);
+}
+
+function isVec3(value: unknown): value is Vec3Data {
+  return Array.isArray(value) && value.length === 3 && value.every(isNumber);
+}
+
+// Box dimensions: a flat or inside-out box makes a degenerate collider
+function isSize(value: unknown): value is Vec3Data {
+  return isVec3(value) && value.every(side => side > 0);
+}
+
+function validateObstacle(obstacle: unknown, source: string, index: number): ObstacleData {
+  const where = `obstacles[${index}]`;
+
+  if (!isRecord(obstacle)) fail(source, `${where} must be an object`);
+  if (!isVec3(obstacle.position)) fail(source, `${where}.position must be [x, y, z]`);
+
+  switch (obstacle.type) {
+    case 'box':
+      if (!isSize(obstacle.size)) fail(source, `${where}.size must be [width, height, depth], all positive`);
+      break;
+    case 'cylinder':
+      if (!isNumber(obstacle.radius) || obstacle.radius <= 0) fail(source, `${where}.radius must be positive`);
+      if (!isNumber(obstacle.height) || obstacle.height <= 0) fail(source, `${where}.height must be positive`);
+      break;
+    case 'prism':
+      if (!Array.isArray(obstacle.points) || obstacle.points.length < 3 || !obstacle.points.every(isVec2)) {
+        fail(source, `${where}.points needs at least 3 [x, z] points`);
+      }
+      if (!isNumber(obstacle.height) || obstacle.height <= 0) fail(source, `${where}.height must be positive`);
+      break;
+    case 'mesh': {
+      if (!Array.isArray(obstacle.vertices) || obstacle.vertices.length < 4 || !obstacle.vertices.every(isVec3)) {
+        fail(source, `${where}.vertices needs at least 4 [x, y, z] points`);
+      }
+      const vertexCount = obstacle.vertices.length;
+      if (!Array.isArray(obstacle.faces) || obstacle.faces.length < 4) fail(source, `${where}.faces needs at least 4 faces`);
+      obstacle.faces.forEach((face: unknown, i: number) => {
+        const isIndex = (value: unknown) => isInteger(value) && value >= 0 && value < vertexCount;
+        if (!Array.isArray(face) || face.length < 3 || !face.every(isIndex)) {
+          fail(source, `${where}.faces[${i}] must list at least 3 vertex indices`);
+        }
+      });
+      if (obstacle.convex !== undefined && typeof obstacle.convex !== 'boolean') fail(source, `${where}.convex must be true or false`);
+      break;
+    }
+    default:
+      fail(source, `${where}.type "${obstacle.type}" is not supported`);
+  }
+  if (obstacle.type !== 'cylinder' && obstacle.rotation !== undefined && !isNumber(obstacle.rotation)) {
+    fail(source, `${where}.rotation must be a number`);
+  }
+  if (obstacle.surface !== undefined && !isOneOf(BARRIER_SURFACE_TYPES, obstacle.surface)) {
+    fail(source, `${where}.surface must be one of ${BARRIER_SURFACE_TYPES.join(', ')}`);
+  }
+
+  return obstacle as unknown as ObstacleData;
+}
+
+function validateSurfaceZone(zone: unknown, source: string, index: number): SurfaceZoneData {
+  const where = `surfaces[${index}]`;
+
+  if (!isRecord(zone)) fail(source, `${where} must be an object`);
+  if (!isOneOf(GROUND_SURFACE_TYPES, zone.type)) {
+    fail(source, `${where}.type must be one of ${GROUND_SURFACE_TYPES.join(', ')}`);
+  }
+  if (!Array.isArray(zone.polygon) || zone.polygon.length < 3) fail(source, `${where}.polygon needs at least 3 points`);
+  zone.polygon.forEach((point: unknown, i: number) => {
+    if (!isVec2(point)) fail(source, `${where}.polygon[${i}] must be [x, z]`);
+  });
+
+  return zone as unknown as SurfaceZoneData;
+}
+
+function validateHeightfield(heightfield: unknown, source: string): void {
+  const where = 'floor.heightfield';
+
+  if (!isRecord(heightfield)) fail(source, `${where} must be an object`);
+  if (!isVec2(heightfield.origin)) fail(source, `${where}.origin must be [x, z]`);
+  if (!isNumber(heightfield.cellSize) || heightfield.cellSize <= 0) fail(source, `${where}.cellSize must be positive`);
+  if (!Array.isArray(heightfield.heights) || heightfield.heights.length < 2) fail(source, `${where}.heights needs at least 2 rows`);
+
+  const firstRow: unknown = heightfield.heights[0];
+  const columns = Array.isArray(firstRow) ? firstRow.length : 0;
+  if (columns < 2) fail(source, `${where}.heights needs at least 2 columns`);
+  heightfield.heights.forEach((row: unknown, i: number) => {
+    if (!Array.isArray(row) || row.length !== columns || !row.every(isNumber)) {
+      fail(source, `${where}.heights[${i}] must be ${columns} numbers, like the first row`);
+    }
+  });
+}
+
+function validateMovingObstacle(obstacle: unknown, source: string, index: number): MovingObstacleData {
+  const where = `movingObstacles[${index}]`;
+
+  if (!isRecord(obstacle)) fail(source, `${where} must be an object`);
+  const positive = (field: string) => {
+    const value = obstacle[field];
+    if (!isNumber(value) || value <= 0) fail(source, `${where}.${field} must be positive`);
+  };
+  const optional = (field: string) => {
+    if (obstacle[field] !== undefined && !isNumber(obstacle[field])) fail(source, `${where}.${field} must be a number`);
+  };
+
+  positive('period');
+  optional('phase');
+  optional('rotation');
+
+  switch (obstacle.type) {
+    case 'windmill':
+      if (!isVec3(obstacle.position)) fail(source, `${where}.position must be [x, y, z]`);
+      positive('bladeLength');
+      if (obstacle.bladeWidth !== undefined) positive('bladeWidth');
+      if (obstacle.bladeCount !== undefined && (!isInteger(obstacle.bladeCount) || obstacle.bladeCount < 1)) {
+        fail(source, `${where}.bladeCount must be a positive integer`);
+      }
+      break;
+    case 'slider':
+      if (!isVec3(obstacle.position)) fail(source, `${where}.position must be [x, y, z]`);
+      if (!isSize(obstacle.size)) fail(source, `${where}.size must be [width, height, depth], all positive`);
+      if (!isVec2(obstacle.travel)) fail(source, `${where}.travel must be [x, z]`);
+      break;
+    case 'pendulum':
+      if (!isVec3(obstacle.pivot)) fail(source, `${where}.pivot must be [x, y, z]`);
+      positive('length');
+      positive('bobRadius');
+      optional('amplitude');
+      break;
+    case 'gate':
+      if (!isVec3(obstacle.position)) fail(source, `${where}.position must be [x, y, z]`);
+      if (!isSize(obstacle.size)) fail(source, `${where}.size must be [length, height, thickness], all positive`);
+      break;
+    default:
+      fail(source, `${where}.type "${obstacle.type}" is not supported`);
+  }
+
+  return obstacle as unknown as MovingObstacleData;
+}
+
+function validateHazard(hazard: unknown, source: string, index: number): HazardData {
+  const where = `hazards[${index}]`;
+
+  if (!isRecord(hazard)) fail(source, `${where} must be an object`);
+  if (!isOneOf(HAZARD_TYPES, hazard.type)) fail(source, `${where}.type "${hazard.type}" is not supported`);
+  if (!Array.isArray(hazard.polygon) || hazard.polygon.length < 3) fail(source, `${where}.polygon needs at least 3 points`);
+  hazard.polygon.forEach((point: unknown, i: number) => {
+    if (!isVec2(point)) fail(source, `${where}.polygon[${i}] must be [x, z]`);
+  });
+  if (hazard.penalty !== undefined && (!isInteger(hazard.penalty) || hazard.penalty < 0)) {
+    fail(source, `${where}.penalty must be a whole number of strokes`);
+  }
+  if (hazard.dropZone !== undefined && !isVec3(hazard.dropZone)) fail(source, `${where}.dropZone must be [x, y, z]`);
+
+  return hazard as unknown as HazardData;
+}
+
+/**
+ * Validate raw JSON against the level schema.
+ * Throws with a descriptive message so broken files are easy to track down.
+ */
+export function parseLevelData(data: unknown, source: string = 'level'): LevelData {
+  if (!isRecord(data)) fail(source, 'expected an object');
+  if (data.version !== LEVEL_FORMAT_VERSION) {
+    fail(source, `unsupported version ${data.version} (expected ${LEVEL_FORMAT_VERSION})`);
+  }
+
+  if (!isInteger(data.levelNumber) || data.levelNumber < 1) fail(source, 'levelNumber must be a positive integer');
+  if (typeof data.name !== 'string' || data.name.length === 0) fail(source, 'name is required');
+  if (data.description !== undefined && typeof data.description !== 'string') fail(source, 'description must be a string');
+  if (!isInteger(data.par) || data.par < 1) fail(source, 'par must be a positive integer');
+
+  if (!isVec3(data.start)) fail(source, 'start must be [x, y, z]');
+
+  const cup = data.cup;
+  if (!isRecord(cup) || !isVec3(cup.position)) fail(source, 'cup.position must be [x, y, z]');
+  if (!isNumber(cup.radius) || cup.radius <= 0) fail(source, 'cup.radius must be positive');
+
+  const floor = data.floor;
+  if (!isRecord(floor) || !Array.isArray(floor.polygon) || floor.polygon.length < 3) {
+    fail(source, 'floor.polygon needs at least 3 points');
+  }
+  floor.polygon.forEach((point: unknown, i: number) => {
+    if (!isVec2(point)) fail(source, `floor.polygon[${i}] must be [x, z]`);
+  });
+  if (floor.heightfield !== undefined) validateHeightfield(floor.heightfield, source);
+  if (floor.surface !== undefined && !isOneOf(GROUND_SURFACE_TYPES, floor.surface)) {
+    fail(source, `floor.surface must be one of ${GROUND_SURFACE_TYPES.join(', ')}`);
+  }
+
+  if (!Array.isArray(data.walls)) fail(source, 'walls must be an array');
+  data.walls.forEach((wall: unknown, i: number) => {
+    if (!isRecord(wall) || !isVec2(wall.from) || !isVec2(wall.to)) fail(source, `walls[${i}] needs from and to as [x, z]`);
+    if (wall.height !== undefined && (!isNumber(wall.height) || wall.height <= 0)) fail(source, `walls[${i}].height must be positive`);
+    if (wall.thickness !== undefined && (!isNumber(wall.thickness) || wall.thickness <= 0)) fail(source, `walls[${i}].thickness must be positive`);
+    if (wall.surface !== undefined && !isOneOf(BARRIER_SURFACE_TYPES, wall.surface)) {
+      fail(source, `walls[${i}].surface must be one of ${BARRIER_SURFACE_TYPES.join(', ')}`);
+    }
+  });
+
+  if (data.obstacles !== undefined) {
+    if (!Array.isArray(data.obstacles)) fail(source, 'obstacles must be an array');
+    data.obstacles.forEach((obstacle: unknown, i: number) => validateObstacle(obstacle, source, i));
+  }
+
+  if (data.movingObstacles !== undefined) {
+    if (!Array.isArray(data.movingObstacles)) fail(source, 'movingObstacles must be an array');
+    data.movingObstacles.forEach((obstacle: unknown, i: number) => validateMovingObstacle(obstacle, source, i));
+  }
+
+  if (data.hazards !== undefined) {
+    if (!Array.isArray(data.hazards)) fail(source, 'hazards must be an array');
+    data.hazards.forEach((hazard: unknown, i: number) => validateHazard(hazard, source, i));
+  }
+
+  if (data.surfaces !== undefined) {
+    if (!Array.isArray(data.surfaces)) fail(source, 'surfaces must be an array');
+    data.surfaces.forEach((zone: unknown, i: number) => validateSurfaceZone(zone, source, i));
+  }
+
+  return data as unknown as LevelData;
+}
@@ -1,8 +1,12 @@
 import * as THREE from 'three';
 import * as CANNON from 'cannon-es';
 import { Level } from './Level';
-import { Level1 } from './Level1';
-import { Level2 } from './Level2';
+import { LevelConfig, LevelData, parseLevelData } from './LevelData';
+import { HoleScore, Scorecard } from '../scoring/Scorecard';
+import { GameEvents } from '../game/GameEvents';
+
+// Every JSON file in ./data is a hole; dropping a new file in registers it
+const levelFiles = import.meta.glob('./data/*.json', { eager: true, import: 'default' });
 
 export interface GameState {
   currentLevel: number;
@@ -14,13 +18,18 @@ export interface GameState {
 export class LevelManager {
   private scene: THREE.Scene;
   private world: CANNON.World;
+  private events: GameEvents;
   private levels: Map<number, Level>;
   private currentLevel: Level | null = null;
   private gameState: GameState;
+  private scorecard: Scorecard = new Scorecard();
+  private isCustomLevel: boolean = false; // Editor layouts don't count towards the round
+  private firstLevel: number = 1; // Where the current round tees off
 
-  constructor(scene: THREE.Scene, world: CANNON.World) {
+  constructor(scene: THREE.Scene, world: CANNON.World, events: GameEvents) {
     this.scene = scene;
     this.world = world;
+    this.events = events;
     this.levels = new Map();
     
     // Initialize game state
@@ -33,18 +42,26 @@ export class LevelManager {
 
     // Register available levels
     this.registerLevels();
+    this.startNewRound();
   }
 
   private registerLevels(): void {
     console.log('🎮 Registering levels...');
     
-    // Create level instances
-    const level1 = new Level1(this.scene, this.world);
-    const level2 = new Level2(this.scene, this.world);
-    
-    // Register them in the map
-    this.levels.set(1, level1);
-    this.levels.set(2, level2);
+    Object.entries(levelFiles).forEach(([path, raw]) => {
+      try {
+        const data = parseLevelData(raw, path);
+
+        if (this.levels.has(data.levelNumber)) {
+          console.error(`❌ Duplicate level number ${data.levelNumber} in ${path}, skipping`);
+          return;
+        }
+
+        this.levels.set(data.levelNumber, new Level(this.scene, this.world, data));
+      } catch (error) {
+        console.error(`❌ Failed to register level from ${path}:`, error);
+      }
+    });
     
     console.log(`✅ Registered ${this.levels.size} levels`);
     
@@ -63,26 +80,54 @@ export class LevelManager {
       return false;
     }
 
+    return this.activateLevel(this.levels.get(levelNumber)!, false);
+  }
+
+  /**
+   * Load the lowest-numbered registered level, e.g. behind the welcome screen
+   */
+  async loadFirstAvailableLevel(): Promise<boolean> {
+    const levelNumbers = this.getAvailableLevels();
+    if (levelNumbers.length === 0) {
+      console.error('❌ No levels registered!');
+      return false;
+    }
+    return this.loadLevel(levelNumbers[0]);
+  }
+
+  /**
+   * Load a level that isn't part of the registered course, e.g. a layout from the editor
+   */
+  async loadCustomLevel(data: LevelData): Promise<boolean> {
+    console.log(`\n🔄 Loading custom level "${data.name}"...`);
+    return this.activateLevel(new Level(this.scene, this.world, data), true);
+  }
+
+  private async activateLevel(newLevel: Level, isCustom: boolean): Promise<boolean> {
+    const levelNumber = newLevel.getLevelNumber();
+
     try {
       // Unload current level if one is loaded
       if (this.currentLevel && this.currentLevel.getIsLoaded()) {
         await this.unloadCurrentLevel();
       }
-
-      // Get the new level
-      const newLevel = this.levels.get(levelNumber)!;
       
       // Load the new level
       await newLevel.load();
       
       // Update current level and game state
       this.currentLevel = newLevel;
+      this.isCustomLevel = isCustom;
       this.gameState.currentLevel = levelNumber;
       this.gameState.strokeCount = 0;
       this.gameState.levelCompleted = false;
+      if (!isCustom) {
+        this.gameState.totalStrokes = this.scorecard.getAllPlayersStrokes();
+      }
       
       console.log(`✅ Successfully loaded level ${levelNumber}`);
       this.logGameState();
+      this.events.emit('levelLoaded', { level: newLevel, isCustom });
       
       return true;
       
@@ -108,35 +153,164 @@ export class LevelManager {
     return { ...this.gameState }; // Return a copy to prevent external modification
   }
 
-  incrementStroke(): void {
+  getScorecard(): Scorecard {
+    return this.scorecard;
+  }
+
+  incrementStroke(playerIndex: number = 0): void {
+    if (this.gameState.levelCompleted) return;
+
     this.gameState.strokeCount++;
-    this.gameState.totalStrokes++;
+
+    if (!this.isCustomLevel) {
+      this.scorecard.recordStroke(this.gameState.currentLevel, playerIndex);
+      this.gameState.totalStrokes = this.scorecard.getAllPlayersStrokes();
+    }
+
     console.log(`⛳ Stroke ${this.gameState.strokeCount} on Level ${this.gameState.currentLevel}`);
   }
 
-  completeLevel(): void {
-    if (this.currentLevel) {
+  /**
+   * Penalty strokes, e.g. for a ball lost to a hazard
+   */
+  addPenaltyStrokes(playerIndex: number, strokes: number): void {
+    if (this.gameState.levelCompleted || strokes <= 0) return;
+
+    this.gameState.strokeCount += strokes;
+
+    if (!this.isCustomLevel) {
+      this.scorecard.recordStroke(this.gameState.currentLevel, playerIndex, strokes);
+      this.gameState.totalStrokes = this.scorecard.getAllPlayersStrokes();
+    }
+
+    console.log(`⚠️ ${strokes} penalty stroke(s) on Level ${this.gameState.currentLevel}`);
+  }
+
+  /**
+   * Record a player as holed out. Safe to call more than once per player.
+   * The level only counts as completed once every player is in.
+   * time is how long the player took on the hole, in seconds of course time.
+   * Returns the hole's scores, or null for levels that aren't part of the round.
+   */
+  completeLevel(playerIndex: number = 0, time: number = 0): HoleScore | null {
+    if (!this.currentLevel) return null;
+
+    if (this.isCustomLevel) {
+      if (!this.gameState.levelCompleted) {
+        this.gameState.levelCompleted = true;
+        console.log(`\n🎉 Custom level completed in ${this.gameState.strokeCount} strokes`);
+      }
+      return null;
+    }
+
+    const levelNumber = this.gameState.currentLevel;
+    const previous = this.scorecard.getHole(levelNumber);
+    if (previous?.completed[playerIndex]) {
+      return previous;
+    }
+
+    const holeScore = this.scorecard.completeHole(levelNumber, playerIndex, time);
+    if (!holeScore) return null;
+
+    const par = this.currentLevel.getPar();
+    const strokes = holeScore.strokes[playerIndex];
+    const playerName = this.scorecard.getPlayerNames()[playerIndex];
+    
+    console.log(`\n🎉 ${playerName} completed level ${levelNumber}!`);
+    console.log(`   Par: ${par}, Score: ${strokes}`);
+    
+    if (strokes < par) {
+      console.log('   🔥 Under par! Great shot!');
+    } else if (strokes === par) {
+      console.log('   👍 Right on par!');
+    } else {
+      console.log('   😅 Over par, but you made it!');
+    }
+
+    console.log(`   Round: ${Scorecard.formatToPar(this.scorecard.getScoreToPar(playerIndex))} through ${this.scorecard.getCompletedHoleCount(playerIndex)} holes`);
+
+    if (this.scorecard.isHoleComplete(levelNumber)) {
       this.gameState.levelCompleted = true;
-      const par = this.currentLevel.getPar();
-      const strokes = this.gameState.strokeCount;
-      
-      console.log(`\n🎉 Level ${this.gameState.currentLevel} completed!`);
-      console.log(`   Par: ${par}, Your score: ${strokes}`);
-      
-      if (strokes < par) {
-        console.log('   🔥 Under par! Great shot!');
-      } else if (strokes === par) {
-        console.log('   👍 Right on par!');
-      } else {
-        console.log('   😅 Over par, but you made it!');
+      if (this.isLastLevel()) {
+        this.events.emit('roundFinished', { scorecard: this.scorecard });
       }
     }
+
+    return holeScore;
+  }
+
+  /**
+   * Throw away the strokes on the current hole so it can be replayed
+   */
+  restartLevel(): void {
+    this.gameState.strokeCount = 0;
+    this.gameState.levelCompleted = false;
+
+    if (!this.isCustomLevel) {
+      this.scorecard.resetHole(this.gameState.currentLevel);
+      this.gameState.totalStrokes = this.scorecard.getAllPlayersStrokes();
+    }
+
+    console.log(`🔄 Restarting level ${this.gameState.currentLevel}`);
+  }
+
+  /**
+   * Start a new scorecard over the registered levels from firstLevel on.
+   * Keeps the previous players and first level when none are given.
+   */
+  startNewRound(playerNames?: string[], firstLevel: number = this.firstLevel): void {
+    const levels = this.getLevelConfigs();
+    this.firstLevel = levels.some(level => level.levelNumber === firstLevel) ? firstLevel : levels[0]?.levelNumber ?? 1;
+
+    this.scorecard.startRound(levels.filter(level => level.levelNumber >= this.firstLevel), playerNames);
+    this.gameState.totalStrokes = 0;
+  }
+
+  getFirstLevel(): number {
+    return this.firstLevel;
+  }
+
+  /**
+   * Whether the current round covers every registered level
+   */
+  isFullCourse(): boolean {
+    return this.firstLevel === this.getAvailableLevels()[0];
+  }
+
+  /**
+   * Number, name and par of every registered level, in playing order
+   */
+  getLevelConfigs(): LevelConfig[] {
+    return this.getAvailableLevels().map(levelNumber => {
+      const level = this.levels.get(levelNumber)!;
+      return { levelNumber, name: level.getName(), par: level.getPar() };
+    });
+  }
+
+  /**
+   * The registered level after the current one, or null on the last
+   */
+  getNextLevelNumber(): number | null {
+    return this.getAvailableLevels().find(levelNumber => levelNumber > this.gameState.currentLevel) ?? null;
+  }
+
+  /**
+   * The registered level before the current one, or null on the first
+   */
+  getPreviousLevelNumber(): number | null {
+    const earlier = this.getAvailableLevels().filter(levelNumber => levelNumber < this.gameState.currentLevel);
+    return earlier.length > 0 ? earlier[earlier.length - 1] : null;
+  }
+
+  isLastLevel(): boolean {
+    const levelNumbers = this.getAvailableLevels();
+    return this.gameState.currentLevel === levelNumbers[levelNumbers.length - 1];
   }
 
   async nextLevel(): Promise<boolean> {
-    const nextLevelNumber = this.gameState.currentLevel + 1;
+    const nextLevelNumber = this.getNextLevelNumber();
     
-    if (this.levels.has(nextLevelNumber)) {
+    if (nextLevelNumber !== null) {
       return await this.loadLevel(nextLevelNumber);
     } else {
       console.log('🏆 Congratulations! You\'ve completed all levels!');
@@ -145,9 +319,9 @@ export class LevelManager {
   }
 
   async previousLevel(): Promise<boolean> {
-    const prevLevelNumber = this.gameState.currentLevel - 1;
+    const prevLevelNumber = this.getPreviousLevelNumber();
     
-    if (this.levels.has(prevLevelNumber)) {
+    if (prevLevelNumber !== null) {
       return await this.loadLevel(prevLevelNumber);
     } else {
       console.log('⚠️ Already at the first level!');
@@ -172,19 +346,12 @@ export class LevelManager {
     }
   }
 
-  // Method to reset the entire game
-  async resetGame(): Promise<void> {
+  /**
+   * Start the round over: a fresh scorecard and the first hole loaded again
+   */
+  async resetGame(): Promise<boolean> {
     console.log('🔄 Resetting game...');
-    
-    await this.unloadCurrentLevel();
-    
-    this.gameState = {
-      currentLevel: 1,
-      strokeCount: 0,
-      totalStrokes: 0,
-      levelCompleted: false
-    };
-    
-    console.log('✅ Game reset complete');
+    this.startNewRound();
+    return this.loadLevel(this.firstLevel);
   }
-}
\ No newline at end of file
+}
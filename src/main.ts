@@ -4,16 +4,90 @@ import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { LevelManager } from './levels/LevelManager';
 import { Ball } from './Ball';
 import { BallControls } from './BallControls';
+import { LevelEditor } from './editor/LevelEditor';
+import { Scorecard } from './scoring/Scorecard';
+import { ScorecardView } from './scoring/ScorecardView';
+import { HoleCompleteView } from './scoring/HoleCompleteView';
+import { LeaderboardView, PendingScore } from './scoring/LeaderboardView';
+import { LeaderboardId } from './scoring/Leaderboard';
+import { TurnManager } from './players/TurnManager';
+import { PlayerConfig, TurnOrder } from './players/Player';
+import { PlayerSetup, PlayerSetupResult } from './players/PlayerSetup';
+import { NetClient } from './net/NetClient';
+import { OnlineLobby, OnlineRoundInfo } from './net/OnlineLobby';
+import { BallSnapshot } from './net/protocol';
+import { parseReplayData, ReplayData } from './replay/ReplayData';
+import { ReplayRecorder } from './replay/ReplayRecorder';
+import { ReplayPlayer } from './replay/ReplayPlayer';
+import { ReplayScope, ReplayViewer } from './replay/ReplayViewer';
+import { FixedStepLoop } from './simulation/FixedStepLoop';
+import { createPhysicsWorld } from './simulation/PhysicsWorld';
+import { DEFAULT_DIFFICULTY, Difficulty, TRAJECTORY_PREVIEW } from './aiming/Difficulty';
+import { TrajectoryPreview } from './aiming/TrajectoryPreview';
+import { HazardHit, HazardZones } from './simulation/Hazards';
+import { SurfaceZones } from './simulation/Surfaces';
+import { ColliderView } from './debug/ColliderView';
+import { CAMERA_MODES, CameraRig, CameraSubject, DEFAULT_CAMERA_SMOOTHING } from './camera/CameraRig';
+import { BallState, Hud } from './hud/Hud';
+import { HazardType } from './levels/LevelData';
+import { DirectAimControls } from './input/DirectAimControls';
+import { BindingsPanel } from './input/BindingsPanel';
+import { SaveStore } from './save/SaveStore';
+import { ProgressPanel } from './save/ProgressPanel';
+import { GameSettings, GRAPHICS_PRESETS } from './settings/GameSettings';
+import { SettingsPanel } from './settings/SettingsPanel';
+import { AudioSystem, AudioVolumes } from './audio/AudioSystem';
+import { GameFlow, GameFlowState } from './game/GameFlow';
+import { GameEvents } from './game/GameEvents';
+import { PauseMenu } from './game/PauseMenu';
 
 class MinigolfGame {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
+  private sunLight!: THREE.DirectionalLight;
   private controls!: OrbitControls;
   private levelManager: LevelManager;
   private world: CANNON.World;
-  private ball: Ball | null = null;
+  private balls: Ball[] = [];
+  private players: PlayerConfig[] = [{ name: 'Player 1', color: 0xffffff }];
+  private turnOrder: TurnOrder = 'rotation';
+  private difficulty: Difficulty = DEFAULT_DIFFICULTY;
+  private turnManager: TurnManager | null = null;
+
+  // Online round state; null when playing on this machine only
+  private net: NetClient | null = null;
+  private isHost: boolean = false;
+  private localSeats: Set<number> = new Set();
+  private pendingShot: { shotId: number; shooter: number; synced: boolean } | null = null;
   private ballControls: BallControls | null = null;
+  private directAimControls: DirectAimControls | null = null;
+  private bindingsPanel!: BindingsPanel;
+  private playerSetup!: PlayerSetup;
+  private save: SaveStore = new SaveStore();
+  private progressPanel!: ProgressPanel;
+  private settingsPanel!: SettingsPanel;
+  private audio!: AudioSystem;
+  private roundRecorded: boolean = false;
+  private leaderboardView!: LeaderboardView;
+  private enteredScores: Set<string> = new Set(); // `${board}:${playerIndex}` already put on a leaderboard
+  private holeStartTime: number = 0; // Course time when the balls were put on the tee
+  private editor: LevelEditor | null = null;
+  private scorecardView: ScorecardView = new ScorecardView();
+  private holeCompleteView: HoleCompleteView = new HoleCompleteView();
+  private flow: GameFlow = new GameFlow();
+  private events: GameEvents = new GameEvents();
+  private pauseMenu!: PauseMenu;
+  private changingHole: boolean = false; // A hole is loading; further hole changes wait for it
+  private menuAfterHoleChange: boolean = false; // Quit was asked for while a hole was loading
+  private replayRecorder: ReplayRecorder = new ReplayRecorder();
+  private replayViewer!: ReplayViewer;
+  private clock: THREE.Clock = new THREE.Clock();
+  private stepLoop: FixedStepLoop = new FixedStepLoop();
+  private courseMessageTimer: number | null = null;
+  private colliderView: ColliderView;
+  private cameraRig!: CameraRig;
+  private hud: Hud = new Hud();
 
   constructor() {
     console.log('🎮 Initializing Minigolf Game...');
@@ -21,30 +95,40 @@ class MinigolfGame {
     // Initialize Three.js components
     this.scene = new THREE.Scene();
     this.camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
-    this.renderer = new THREE.WebGLRenderer({ antialias: true });
+    this.renderer = new THREE.WebGLRenderer({ antialias: GRAPHICS_PRESETS[this.save.getSettings().graphics].antialias });
     
     // Initialize physics world
-    this.world = new CANNON.World({
-      gravity: new CANNON.Vec3(0, -9.82, 0), // Earth gravity
-    });
+    this.world = createPhysicsWorld();
     
     // Initialize level manager with physics world
-    this.levelManager = new LevelManager(this.scene, this.world);
+    this.levelManager = new LevelManager(this.scene, this.world, this.events);
+    this.colliderView = new ColliderView(this.scene, this.world);
     
     this.setupRenderer();
     this.setupLighting();
     this.setupCamera();
     this.setupControls();
+    this.cameraRig = new CameraRig(this.camera, this.controls, this.world, (camera) => {
+      // Aiming has to go through whatever camera is on screen
+      this.ballControls?.setCamera(camera);
+      this.directAimControls?.setCamera(camera);
+    });
+    this.replayViewer = new ReplayViewer(new ReplayPlayer(
+      this.scene,
+      this.camera,
+      this.controls,
+      (time) => this.levelManager.getCurrentLevel()?.poseMovingObstacles(time)
+    ));
     this.setupEventListeners();
+    this.setupGameEvents();
     
     console.log('✅ Game initialization complete');
   }
 
   private setupRenderer(): void {
+    // Pixel ratio and shadows come from the graphics settings
     this.renderer.setSize(window.innerWidth, window.innerHeight);
     this.renderer.setClearColor(0x87CEEB); // Sky blue background
-    this.renderer.shadowMap.enabled = true;
-    this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
     
     // Add renderer to DOM
     const gameContainer = document.getElementById('game-container');
@@ -61,12 +145,10 @@ class MinigolfGame {
     this.scene.add(ambientLight);
 
     // Directional light for shadows and definition
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
-    directionalLight.position.set(10, 10, 5);
-    directionalLight.castShadow = true;
-    directionalLight.shadow.mapSize.width = 2048;
-    directionalLight.shadow.mapSize.height = 2048;
-    this.scene.add(directionalLight);
+    this.sunLight = new THREE.DirectionalLight(0xffffff, 0.8);
+    this.sunLight.position.set(10, 10, 5);
+    this.sunLight.castShadow = true;
+    this.scene.add(this.sunLight);
   }
 
   private setupCamera(): void {
@@ -83,6 +165,9 @@ class MinigolfGame {
     this.controls.enableDamping = true; // Smooth camera movements
     this.controls.dampingFactor = 0.05;
     this.controls.screenSpacePanning = false;
+
+    // Touch: one finger orbits (unless it starts on the ball), two fingers pinch to zoom and pan
+    this.controls.touches = { ONE: THREE.TOUCH.ROTATE, TWO: THREE.TOUCH.DOLLY_PAN };
     
     // Set constraints
     this.controls.minDistance = 3;
@@ -96,13 +181,48 @@ class MinigolfGame {
     console.log('   🖱️  Left click + drag: Rotate camera');
     console.log('   🖱️  Right click + drag: Pan camera');
     console.log('   🖱️  Scroll wheel: Zoom in/out');
+    console.log('   📱 Touch: one finger to orbit, two fingers to pinch and pan');
+  }
+
+  /**
+   * React to gameplay. Listeners are added once here, not per ball, so a ball that has
+   * already been thrown away (see forLiveBall) is ignored.
+   */
+  private setupGameEvents(): void {
+    this.events.on('aimStarted', () => this.cameraRig.setUserControl(false));
+    this.events.on('aimEnded', () => this.cameraRig.setUserControl(true));
+
+    this.events.on('shotTaken', ({ ball, direction, power }) => {
+      this.forLiveBall(ball, playerIndex => this.onBallHit(playerIndex, direction, power));
+      this.audio.playHit(this.ballControls ? power / this.ballControls.getMaxPower() : 1);
+    });
+    this.events.on('wallHit', ({ impactSpeed }) => this.audio.playWallHit(impactSpeed));
+    this.events.on('hazardEntered', ({ ball, hazard }) => {
+      this.forLiveBall(ball, playerIndex => this.onBallHazard(playerIndex, hazard));
+    });
+    this.events.on('lippedOut', ({ ball }) => {
+      this.forLiveBall(ball, playerIndex => {
+        const who = this.balls.length > 1 ? `${this.players[playerIndex].name}: ` : '';
+        this.showCourseMessage(`😬 ${who}Lipped out!`);
+      });
+    });
+    this.events.on('holed', ({ ball }) => this.forLiveBall(ball, playerIndex => this.onBallHoled(playerIndex)));
+
+    this.events.on('levelLoaded', ({ level }) => {
+      this.hud.setHole({ levelNumber: level.getLevelNumber(), name: level.getName(), par: level.getPar() });
+    });
+  }
+
+  private forLiveBall(ball: Ball, action: (playerIndex: number) => void): void {
+    const playerIndex = this.balls.indexOf(ball);
+    if (playerIndex >= 0) action(playerIndex);
   }
 
   private setupEventListeners(): void {
     // Handle window resize
     window.addEventListener('resize', () => {
-      this.camera.aspect = window.innerWidth / window.innerHeight;
-      this.camera.updateProjectionMatrix();
+      this.cameraRig.setAspect(window.innerWidth / window.innerHeight);
+      this.renderer.setPixelRatio(this.getPixelRatio(this.save.getSettings()));
       this.renderer.setSize(window.innerWidth, window.innerHeight);
     });
 
@@ -110,44 +230,272 @@ class MinigolfGame {
     window.addEventListener('keydown', (event) => {
       this.handleKeyPress(event);
     });
+
+    // Player setup on the welcome screen starts a round
+    this.playerSetup = new PlayerSetup((result) => {
+      this.save.updateSettings({ turnOrder: result.order, difficulty: result.difficulty });
+      this.settingsPanel.setSettings(this.save.getSettings());
+      this.startRound(result);
+    });
+    const settings = this.save.getSettings();
+    this.playerSetup.setDefaults(settings.turnOrder, settings.difficulty);
+
+    // Online lobby on the welcome screen starts a networked round
+    new OnlineLobby((setup, online) => {
+      this.startRound(setup, online);
+    });
+
+    // Keyboard and gamepad bindings can be changed from the welcome screen
+    this.bindingsPanel = new BindingsPanel(settings.bindings, (bindings) => {
+      this.directAimControls?.setBindings(bindings);
+      this.save.updateSettings({ bindings });
+      this.refreshKeyHints();
+    });
+    this.refreshKeyHints();
+
+    this.audio = new AudioSystem(this.getVolumes(settings));
+
+    // Graphics, drag, camera, aim assist and sound apply as soon as they're changed
+    this.settingsPanel = new SettingsPanel(settings, (changed) => {
+      this.save.updateSettings(changed);
+      this.playerSetup.setDefaults(this.save.getSettings().turnOrder, changed.difficulty);
+      this.applySettings(changed);
+    });
+    this.applySettings(settings);
+    document.getElementById('settings-btn')?.addEventListener('click', () => {
+      document.getElementById('welcome-menu')?.classList.add('hidden');
+      this.settingsPanel.open(() => document.getElementById('welcome-menu')?.classList.remove('hidden'));
+    });
+    document.getElementById('settings-open-btn')?.addEventListener('click', () => this.settingsPanel.open());
+
+    // Escape pauses; the flow decides what can be done from where
+    this.pauseMenu = new PauseMenu({
+      onResume: () => { this.flow.resume(); },
+      onRestartHole: () => { this.retryHole(); },
+      onSettings: () => this.settingsPanel.open(),
+      onQuit: () => { this.returnToMenu(); }
+    });
+    this.flow.onChange((state, previous) => this.onFlowChange(state, previous));
+
+    // Best scores per hole; an unlocked hole can be picked to tee off from
+    this.progressPanel = new ProgressPanel(this.save, this.levelManager.getLevelConfigs(), {
+      onSelectLevel: (levelNumber) => {
+        this.playerSetup.setStartLevel(levelNumber);
+        document.getElementById('welcome-menu')?.classList.add('hidden');
+        document.getElementById('player-setup')?.classList.remove('hidden');
+      },
+      onImport: () => {
+        const imported = this.save.getSettings();
+        this.bindingsPanel.setBindings(imported.bindings);
+        this.directAimControls?.setBindings(imported.bindings);
+        this.refreshKeyHints();
+        this.playerSetup.setDefaults(imported.turnOrder, imported.difficulty);
+        this.settingsPanel.setSettings(imported);
+        this.applySettings(imported);
+      }
+    });
+
+    this.leaderboardView = new LeaderboardView(this.save, this.levelManager.getLevelConfigs());
+    document.getElementById('leaderboards-btn')?.addEventListener('click', () => {
+      this.leaderboardView.show({ board: 'course' });
+    });
+
+    // Level editor entry point on the welcome screen
+    document.getElementById('editor-btn')?.addEventListener('click', () => {
+      this.enterEditor();
+    });
+
+    // Shared replay files can be watched straight from the welcome screen
+    document.getElementById('replay-import-btn')?.addEventListener('click', () => {
+      (document.getElementById('replay-import-input') as HTMLInputElement).click();
+    });
+    document.getElementById('replay-import-input')?.addEventListener('change', () => {
+      this.importReplay();
+    });
   }
 
   private async handleKeyPress(event: KeyboardEvent): Promise<void> {
+    // The editor and the replay panel handle their own shortcuts
+    if (this.editor || this.replayViewer.isOpen()) return;
+
+    if (event.key === 'Escape') {
+      this.togglePause();
+      return;
+    }
+
+    // On the welcome screen and in the pause menu only the harmless keys work
+    if (this.flow.is('menu', 'paused') && !['m', 'M', 'i', 'I'].includes(event.key)) return;
+
+    // Online rounds move between holes together, so no local level hopping
+    if (this.net && ['1', '2', 'n', 'N', 'p', 'P', 'r', 'R'].includes(event.key)) return;
+
     switch (event.key) {
       case '1':
-        console.log('\n🎯 Loading Level 1...');
-        await this.levelManager.loadLevel(1);
-        this.createBall(); // Reposition ball to new level's start
+        this.jumpToLevel(this.levelManager.getAvailableLevels()[0] ?? null, 'There is no first level');
         break;
       case '2':
-        console.log('\n🎯 Loading Level 2...');
-        await this.levelManager.loadLevel(2);
-        this.createBall(); // Reposition ball to new level's start
+        this.jumpToLevel(this.levelManager.getAvailableLevels()[1] ?? null, 'There is no second level');
         break;
       case 'n':
       case 'N':
-        console.log('\n➡️ Loading next level...');
-        this.levelManager.nextLevel();
+        this.jumpToLevel(this.levelManager.getNextLevelNumber(), 'This is the last level');
         break;
       case 'p':
       case 'P':
-        console.log('\n⬅️ Loading previous level...');
-        this.levelManager.previousLevel();
+        this.jumpToLevel(this.levelManager.getPreviousLevelNumber(), 'This is the first level');
         break;
       case 'r':
       case 'R':
-        console.log('\n🔄 Resetting game...');
-        this.levelManager.resetGame();
+        this.restartRound();
         break;
       case 'i':
       case 'I':
         this.logGameInfo();
         break;
       case 'c':
-      case 'C':
-        this.resetCameraPosition();
+      case 'C': {
+        const mode = this.cameraRig.nextMode();
+        const label = CAMERA_MODES.find(entry => entry.mode === mode)?.label;
+        console.log(`📹 Camera: ${label}`);
+        this.showCourseMessage(`📹 ${label} camera`);
+        break;
+      }
+      case 'v':
+      case 'V':
+        // Pausing the local simulation would desync an online round
+        if (!this.net) this.watchReplay('shot');
+        break;
+      case 'g':
+      case 'G':
+        console.log(`🧱 Colliders ${this.colliderView.toggle() ? 'shown' : 'hidden'}`);
         break;
+      case 'm':
+      case 'M':
+        this.toggleMute();
+        break;
+    }
+  }
+
+  private togglePause(): void {
+    if (this.settingsPanel.isOpen()) {
+      this.settingsPanel.close();
+    } else if (this.flow.is('paused')) {
+      this.flow.resume();
+    } else {
+      this.flow.pause();
+    }
+  }
+
+  private onFlowChange(state: GameFlowState, previous: GameFlowState): void {
+    this.refreshAimControls();
+
+    if (state === 'paused') {
+      this.pauseMenu.show(this.net !== null);
+    } else if (previous === 'paused') {
+      this.pauseMenu.hide();
+    }
+
+    if (state === 'levelIntro') {
+      const level = this.levelManager.getCurrentLevel();
+      if (level) this.showCourseMessage(`⛳ Hole ${level.getLevelNumber()}: ${level.getName()} · Par ${level.getPar()}`);
+    }
+  }
+
+  private jumpToLevel(levelNumber: number | null, missing: string = `There is no level ${levelNumber}`): void {
+    if (levelNumber === null || !this.levelManager.getAvailableLevels().includes(levelNumber)) {
+      console.log(`⚠️ ${missing}`);
+      return;
+    }
+    // Only restarting wipes a hole's scores, so finished holes stay finished
+    if (this.levelManager.getScorecard().hasHoledOut(levelNumber)) {
+      console.log(`⚠️ Hole ${levelNumber} is already finished this round, press R to start a new round`);
+      return;
+    }
+    console.log(`\n🎯 Loading Level ${levelNumber}...`);
+    this.changeHole(() => this.levelManager.loadLevel(levelNumber));
+  }
+
+  /**
+   * Load a hole (or set the current one up again) and tee off on it. Only one change runs
+   * at a time, and the balls are always rebuilt for whatever ends up loaded.
+   */
+  private async changeHole(load: () => Promise<boolean>): Promise<boolean> {
+    if (this.changingHole) {
+      console.log('⏳ Still loading the previous hole');
+      return false;
+    }
+    this.changingHole = true;
+
+    this.scorecardView.hide();
+    this.holeCompleteView.hide();
+    this.leaderboardView.hide();
+    this.disposeBalls();
+    try {
+      const loaded = await load();
+      if (!this.menuAfterHoleChange) this.beginHole();
+      return loaded;
+    } finally {
+      this.changingHole = false;
+      if (this.menuAfterHoleChange) {
+        this.menuAfterHoleChange = false;
+        this.returnToMenu();
+      }
+    }
+  }
+
+  private beginHole(): void {
+    this.createBalls();
+    if (this.balls.length > 0) {
+      this.flow.transition('levelIntro');
+    } else {
+      console.error('❌ No hole to play, going back to the menu');
+      this.returnToMenu();
+    }
+  }
+
+  /**
+   * Leave the round for the welcome screen, with the first hole set up behind it as at startup
+   */
+  private async returnToMenu(): Promise<void> {
+    // Loading the menu's hole now would race the one already on its way; leave once it's in
+    if (this.changingHole) {
+      this.menuAfterHoleChange = true;
+      return;
+    }
+
+    const net = this.net;
+    this.net = null;
+    this.pendingShot = null;
+    net?.setCloseCallback(() => {});
+    net?.close();
+
+    this.scorecardView.hide();
+    this.holeCompleteView.hide();
+    this.leaderboardView.hide();
+    this.settingsPanel.close();
+    this.disposeBalls();
+    this.flow.transition('menu');
+    this.refreshKeyHints();
+
+    await this.loadMenuCourse();
+
+    document.getElementById('game-container')?.classList.add('hidden');
+    document.getElementById('player-setup')?.classList.add('hidden');
+    document.getElementById('online-lobby')?.classList.add('hidden');
+    document.getElementById('welcome-menu')?.classList.remove('hidden');
+    document.getElementById('welcome-screen')?.classList.remove('hidden');
+  }
+
+  /**
+   * The first registered hole behind the welcome screen. If it won't load there are no balls to put on it.
+   */
+  private async loadMenuCourse(): Promise<void> {
+    if (await this.levelManager.loadFirstAvailableLevel()) {
+      this.createBalls();
+    } else {
+      this.disposeBalls();
     }
+    this.resetCameraPosition();
   }
 
   private resetCameraPosition(): void {
@@ -160,12 +508,16 @@ class MinigolfGame {
   private logGameInfo(): void {
     console.log('\n📝 Game Information:');
     console.log('Available controls:');
-    console.log('  1 - Load Level 1');
-    console.log('  2 - Load Level 2');
+    console.log('  1 - Load the first level');
+    console.log('  2 - Load the second level');
     console.log('  N - Next Level');
     console.log('  P - Previous Level');
-    console.log('  R - Reset Game');
-    console.log('  C - Reset Camera');
+    console.log('  R - Restart round');
+    console.log('  Esc - Pause');
+    console.log('  M - Mute sound');
+    console.log('  C - Switch camera (orbit, chase, behind the ball, top-down, from the hole)');
+    console.log('  V - Replay last shot');
+    console.log('  G - Show/hide colliders');
     console.log('  I - Show this info');
     console.log('\nCamera controls:');
     console.log('  Left click + drag - Rotate camera');
@@ -181,31 +533,189 @@ class MinigolfGame {
 
   private animate(): void {
     requestAnimationFrame(() => this.animate());
-    
-    // Update physics world
-    this.world.step(1/60); // 60 FPS
-    
-    // Update ball physics if ball exists
-    if (this.ball) {
-      this.ball.update();
-      
-      // Check if level is completed
-      const ballPosition = this.ball.getPosition();
-      const currentLevel = this.levelManager.getCurrentLevel();
-      if (currentLevel && currentLevel.isGoalReached(ballPosition)) {
-        // Trigger level completion
-        this.levelManager.completeLevel();
-      }
-      
-      // Make camera orbit around the ball by updating the target
-      this.controls.target.copy(ballPosition);
+    const deltaTime = this.clock.getDelta();
+
+    if (this.replayViewer.isOpen()) {
+      // The live game stays frozen while a replay is on screen
+      this.replayViewer.update(deltaTime);
+    } else if (this.flow.is('paused') && !this.net) {
+      // Paused: physics, moving obstacles and the intro all wait. Online rounds can't stop for one player.
+    } else {
+      this.flow.update(deltaTime);
+      // Simulate in fixed steps, then draw the balls between the last two of them
+      this.directAimControls?.update(deltaTime);
+      const alpha = this.stepLoop.advance(deltaTime, (step) => this.fixedUpdate(step));
+      this.balls.forEach(ball => ball.syncMesh(alpha));
+      this.levelManager.getCurrentLevel()?.syncMovingObstacles(alpha);
+      this.ballControls?.update();
+
     }
     
-    // Update controls for smooth camera movement
-    this.controls.update();
+    this.colliderView.update();
+
+    // The editor and replays move the camera themselves; a play-test plays like the real thing
+    const editorHasCamera = this.editor !== null && !this.editor.getIsPlayTesting();
+    this.cameraRig.setEnabled(!editorHasCamera && !this.replayViewer.isOpen());
+    this.cameraRig.update(deltaTime, this.getCameraSubject());
+
+    const courseOnScreen = !editorHasCamera && !this.replayViewer.isOpen();
+    this.hud.setVisible(courseOnScreen);
+    this.audio.setAmbienceActive(courseOnScreen && this.balls.length > 0);
+    this.audio.setRollingSpeed(courseOnScreen ? this.getRollingSpeed() : 0);
+    this.hud.setBallState(this.getBallState());
+    const aimPower = this.ballControls?.getAimPower() ?? 0;
+    this.hud.setPower(aimPower > 0 && this.ballControls ? aimPower / this.ballControls.getMaxPower() : null);
     
     // Render the scene
-    this.renderer.render(this.scene, this.camera);
+    this.renderer.render(this.scene, this.cameraRig.getActiveCamera());
+  }
+
+  private getPixelRatio(settings: GameSettings): number {
+    // Capped so phones don't have to fill 3x canvases
+    return Math.min(window.devicePixelRatio, GRAPHICS_PRESETS[settings.graphics].maxPixelRatio);
+  }
+
+  private applySettings(settings: GameSettings): void {
+    const preset = GRAPHICS_PRESETS[settings.graphics];
+    this.renderer.setPixelRatio(this.getPixelRatio(settings));
+    this.renderer.setSize(window.innerWidth, window.innerHeight);
+
+    const shadowType = preset.softShadows ? THREE.PCFSoftShadowMap : THREE.PCFShadowMap;
+    const shadowsChanged = this.renderer.shadowMap.enabled !== settings.shadows || this.renderer.shadowMap.type !== shadowType;
+    this.renderer.shadowMap.enabled = settings.shadows;
+    this.renderer.shadowMap.type = shadowType;
+    if (this.sunLight.shadow.mapSize.x !== preset.shadowMapSize) {
+      this.sunLight.shadow.mapSize.set(preset.shadowMapSize, preset.shadowMapSize);
+      // The old shadow map keeps its size until it's thrown away
+      this.sunLight.shadow.map?.dispose();
+      this.sunLight.shadow.map = null;
+    }
+    if (shadowsChanged) {
+      // Shaders are compiled with or without shadows, so every material needs rebuilding
+      this.scene.traverse((object) => {
+        if (!(object instanceof THREE.Mesh)) return;
+        (Array.isArray(object.material) ? object.material : [object.material]).forEach(material => {
+          material.needsUpdate = true;
+        });
+      });
+    }
+
+    this.controls.rotateSpeed = settings.cameraSpeed;
+    this.controls.zoomSpeed = settings.cameraSpeed;
+    this.controls.panSpeed = settings.cameraSpeed;
+    this.cameraRig.setSmoothing(DEFAULT_CAMERA_SMOOTHING * settings.cameraSpeed);
+
+    this.ballControls?.setDragSettings(settings.dragSensitivity, settings.invertDrag);
+    this.audio.setVolumes(this.getVolumes(settings));
+
+    // Online rounds keep the difficulty the host picked
+    if (!this.net && settings.difficulty !== this.difficulty) {
+      this.difficulty = settings.difficulty;
+      this.applyAimAssist();
+    }
+  }
+
+  private getVolumes(settings: GameSettings): AudioVolumes {
+    return {
+      master: settings.masterVolume,
+      effects: settings.effectsVolume,
+      ambience: settings.ambienceVolume,
+      muted: settings.muted
+    };
+  }
+
+  private toggleMute(): void {
+    this.save.updateSettings({ muted: !this.save.getSettings().muted });
+    const settings = this.save.getSettings();
+    this.settingsPanel.setSettings(settings);
+    this.applySettings(settings);
+    this.showCourseMessage(settings.muted ? '🔇 Sound off' : '🔊 Sound on');
+  }
+
+  /**
+   * Aiming aid: how much of the shot it predicts depends on the difficulty
+   */
+  private applyAimAssist(): void {
+    const currentLevel = this.levelManager.getCurrentLevel();
+    if (!this.ballControls || !currentLevel) return;
+
+    const previewLimits = TRAJECTORY_PREVIEW[this.difficulty];
+    this.ballControls.setTrajectoryPreview(previewLimits ? new TrajectoryPreview(
+      this.scene,
+      currentLevel.getData(),
+      previewLimits,
+      () => currentLevel.getCourseTime()
+    ) : null);
+  }
+
+  /**
+   * Speed of the fastest ball rolling on the course, for the rolling sound
+   */
+  private getRollingSpeed(): number {
+    return this.balls.reduce((fastest, ball) => {
+      if (!ball.isInPlay() || ball.isHoleCompleted()) return fastest;
+      const velocity = ball.getBody().velocity;
+      return Math.max(fastest, Math.hypot(velocity.x, velocity.z));
+    }, 0);
+  }
+
+  private getBallState(): BallState {
+    const ball = this.turnManager?.getCurrentBall();
+    if (!ball) return 'waiting';
+    if (ball.isHoleCompleted()) return 'holed';
+    if (!ball.isAtRest()) return 'rolling';
+    if ((this.ballControls?.getAimPower() ?? 0) > 0) return 'aiming';
+    return this.ballControls?.isEnabled() ? 'ready' : 'waiting';
+  }
+
+  /**
+   * Strokes and round score of the player whose turn it is
+   */
+  private refreshHudScore(): void {
+    const playerIndex = this.turnManager?.getCurrentPlayerIndex() ?? 0;
+    const gameState = this.levelManager.getGameState();
+    const scorecard = this.levelManager.getScorecard();
+    const hole = scorecard.getHole(gameState.currentLevel);
+    const inRound = hole !== null && !this.editor;
+
+    this.hud.setScore({
+      playerName: this.balls.length > 1 ? this.players[playerIndex].name : null,
+      strokes: inRound ? hole.strokes[playerIndex] : gameState.strokeCount,
+      roundToPar: inRound ? scorecard.getScoreToPar(playerIndex) : null
+    });
+  }
+
+  private refreshKeyHints(): void {
+    this.hud.setKeyHints(this.bindingsPanel.getBindings(), this.net !== null);
+  }
+
+  /**
+   * The ball whose turn it is, for the camera to follow; null when it's off the course
+   */
+  private getCameraSubject(): CameraSubject | null {
+    const currentBall = this.turnManager?.getCurrentBall();
+    if (!currentBall || !currentBall.isInPlay()) return null;
+
+    const velocity = currentBall.getBody().velocity;
+    return {
+      position: currentBall.getMesh().position.clone(),
+      velocity: new THREE.Vector3(velocity.x, velocity.y, velocity.z),
+      aimDirection: this.ballControls?.getAimDirection() ?? null
+    };
+  }
+
+  /**
+   * One physics step. Everything that affects how a shot plays out runs here, never per frame.
+   */
+  private fixedUpdate(step: number): void {
+    this.balls.forEach(ball => ball.storePreviousTransform());
+    this.levelManager.getCurrentLevel()?.step(step);
+    this.world.step(step);
+
+    // Update ball physics for every ball on the course
+    this.balls.forEach(ball => ball.update(step));
+    this.turnManager?.update();
+    this.replayRecorder.update(step);
   }
 
   async start(): Promise<void> {
@@ -216,10 +726,10 @@ class MinigolfGame {
     
     // Load the first level
     console.log('\n🎯 Loading initial level...');
-    await this.levelManager.loadLevel(1);
-    
-    // Create the golf ball
-    this.createBall();
+    if (await this.levelManager.loadFirstAvailableLevel()) {
+      // Create the golf ball
+      this.createBalls();
+    }
     
     // Start the render loop
     this.animate();
@@ -228,51 +738,566 @@ class MinigolfGame {
     console.log('🖱️  Use your mouse to look around the course!');
   }
 
-  private createBall(): void {
-    if (this.ball) {
-      this.ball.dispose();
-      this.ballControls?.dispose();
+  /**
+   * Start a new round from the player setup screen
+   */
+  private async startRound(setup: PlayerSetupResult, online?: OnlineRoundInfo): Promise<void> {
+    this.players = setup.players;
+    this.turnOrder = setup.order;
+    this.difficulty = setup.difficulty;
+    console.log(`\n👥 Starting a round for ${this.players.map(player => player.name).join(', ')} (${this.turnOrder})`);
+
+    if (online) {
+      this.setupOnlineRound(online);
     }
+    this.refreshKeyHints();
+
+    await this.changeHole(() => {
+      this.levelManager.startNewRound(
+        this.players.map(player => player.name),
+        setup.startLevel ?? this.levelManager.getAvailableLevels()[0]
+      );
+      this.roundRecorded = false;
+      this.enteredScores.clear();
+      return this.levelManager.loadLevel(this.levelManager.getFirstLevel());
+    });
+
+    document.getElementById('welcome-screen')?.classList.add('hidden');
+    document.getElementById('game-container')?.classList.remove('hidden');
+  }
+
+  private disposeBalls(): void {
+    this.replayViewer.close(false);
+    this.balls.forEach(ball => ball.dispose());
+    this.balls = [];
+    this.directAimControls?.dispose();
+    this.directAimControls = null;
+    this.ballControls?.dispose();
+    this.ballControls = null;
+    this.turnManager = null;
+    this.updateTurnIndicator();
+  }
+
+  private createBalls(): void {
+    this.disposeBalls();
 
     const currentLevel = this.levelManager.getCurrentLevel();
     if (currentLevel) {
       const startPos = currentLevel.getStartPosition();
       const goalPos = currentLevel.getGoalPosition();
-      
-      this.ball = new Ball(this.scene, this.world, startPos);
-      
-      // Set the hole position for collision detection
-      this.ball.setHolePosition(goalPos, 0.4);
-      
-      // Set up next level callback
-      this.ball.setNextLevelCallback(() => {
-        this.goToNextLevel();
+
+      // Editor play-tests are always single player
+      const players = this.editor ? this.players.slice(0, 1) : this.players;
+      const hazards = new HazardZones(currentLevel.getData());
+      const surfaces = new SurfaceZones(currentLevel.getData());
+      this.holeStartTime = currentLevel.getCourseTime();
+      this.cameraRig.setLevel(currentLevel.getData(), currentLevel.getTerrain());
+
+      this.balls = players.map(player => {
+        const ball = new Ball(this.scene, this.world, this.events, startPos, player.color);
+
+        // Set the hole position for collision detection
+        ball.setHolePosition(goalPos, currentLevel.getCupRadius());
+        ball.setHazardZones(hazards);
+        ball.setTerrain(currentLevel.getTerrain());
+        ball.setSurfaceZones(surfaces);
+        return ball;
       });
       
       this.ballControls = new BallControls(
-        this.camera, 
+        this.cameraRig.getActiveCamera(), 
         this.renderer.domElement, 
-        this.ball, 
+        this.balls[0], 
         this.scene,
-        () => { this.controls.enabled = false; }, // Disable camera on aiming start
-        () => { this.controls.enabled = true; }   // Re-enable camera on aiming end
+        this.events
       );
-      console.log('⛳ Golf ball created at starting position with hole at:', goalPos);
+
+      // Keyboard and gamepad aim through the same controls, so turns and online shots apply to both
+      this.directAimControls = new DirectAimControls(this.ballControls, this.cameraRig.getActiveCamera(), this.bindingsPanel.getBindings());
+
+      const settings = this.save.getSettings();
+      this.ballControls.setDragSettings(settings.dragSensitivity, settings.invertDrag);
+      this.applyAimAssist();
+
+      this.turnManager = new TurnManager(players, this.turnOrder);
+      this.turnManager.setTurnChangeCallback((playerIndex) => {
+        this.ballControls?.setBall(this.balls[playerIndex]);
+        if (this.flow.is('rolling', 'paused')) this.flow.transition('aiming');
+        this.refreshAimControls();
+        this.updateTurnIndicator();
+        this.refreshHudScore();
+      });
+
+      if (this.net) {
+        // Shots go through the relay and are only played once they come back
+        this.ballControls.setShotHandler((direction, power) => {
+          this.ballControls?.setEnabled(false);
+          this.net?.send({
+            type: 'shot',
+            playerIndex: this.turnManager!.getCurrentPlayerIndex(),
+            direction: [direction.x, direction.z],
+            power,
+            courseTime: currentLevel.getCourseTime()
+          });
+        });
+        this.turnManager.setTurnAdvanceGuard(() => this.syncOnlineRest());
+      }
+      this.turnManager.startHole(this.balls, startPos, goalPos);
+      this.replayRecorder.startHole(currentLevel.getData(), players, this.balls);
+      this.refreshHudScore();
+
+      console.log(`⛳ ${this.balls.length} golf ball(s) created at starting position with hole at:`, goalPos);
+    }
+  }
+
+  private onBallHit(playerIndex: number, direction: THREE.Vector3, power: number): void {
+    this.replayRecorder.recordShot(playerIndex, direction, power, this.levelManager.getCurrentLevel()?.getCourseTime() ?? 0);
+    this.levelManager.incrementStroke(playerIndex);
+    this.turnManager?.notifyShot();
+    this.refreshHudScore();
+
+    // No more shots until everything on the course has stopped
+    this.flow.transition('rolling');
+    this.ballControls?.setEnabled(false);
+  }
+
+  private onBallHoled(playerIndex: number): void {
+    const currentLevel = this.levelManager.getCurrentLevel();
+    if (!this.turnManager || !currentLevel) return;
+
+    const holeScore = this.levelManager.completeLevel(playerIndex, currentLevel.getCourseTime() - this.holeStartTime);
+    this.turnManager.markHoled(playerIndex);
+    this.refreshHudScore();
+
+    this.audio.playCupDrop();
+    const strokes = holeScore ? holeScore.strokes[playerIndex] : this.levelManager.getGameState().strokeCount;
+    if (strokes === 1) {
+      this.audio.playCheer();
+      this.showCourseMessage('🎉 Hole in one!');
+    }
+
+    // Only this browser's players count towards its saved progress
+    if (holeScore && this.isLocalSeat(playerIndex)) {
+      this.save.recordHole(holeScore.levelNumber, holeScore.strokes[playerIndex], this.levelManager.getNextLevelNumber());
+      this.progressPanel.render();
+    }
+
+    // Solo play keeps the quick retry / next level prompt
+    if (this.balls.length === 1 && !this.net) {
+      const scorecard = this.levelManager.getScorecard();
+      const summary = {
+        strokes: holeScore ? holeScore.strokes[0] : this.levelManager.getGameState().strokeCount,
+        par: currentLevel.getPar(),
+        roundToPar: holeScore ? Scorecard.formatToPar(scorecard.getScoreToPar()) : undefined,
+        isLastHole: holeScore !== null && this.levelManager.isLastLevel()
+      };
+      const showResult = () => this.holeCompleteView.show(summary, {
+        onRetry: () => { this.retryHole(); },
+        onContinue: () => { this.goToNextLevel(); },
+        onWatchReplay: () => this.watchReplay('hole', showResult),
+        onViewLeaderboard: holeScore ? () => this.showLeaderboard(holeScore.levelNumber, showResult) : undefined
+      });
+      this.flow.transition('holeComplete');
+      showResult();
+      return;
     }
+
+    if (this.turnManager.isHoleFinished()) {
+      this.showHoleSummary();
+    }
+  }
+
+  /**
+   * A ball went into water, a chasm or out of bounds and was put back: charge its player the penalty
+   */
+  private onBallHazard(playerIndex: number, hazard: HazardHit): void {
+    this.levelManager.addPenaltyStrokes(playerIndex, hazard.penalty);
+    this.refreshHudScore();
+
+    const labels: Record<HazardType, string> = {
+      water: '💦 Water hazard!',
+      outOfBounds: '🚩 Out of bounds!',
+      chasm: '🕳️ Into the chasm!'
+    };
+    const who = this.balls.length > 1 ? `${this.players[playerIndex].name}: ` : '';
+    const penalty = hazard.penalty === 1 ? '+1 stroke' : `+${hazard.penalty} strokes`;
+    this.showCourseMessage(`${labels[hazard.type]} ${who}${hazard.penalty > 0 ? penalty : 'no penalty'}, ball dropped`);
+  }
+
+  private showCourseMessage(text: string): void {
+    const message = document.getElementById('hazard-message');
+    if (!message) return;
+
+    message.textContent = text;
+    message.classList.remove('hidden');
+
+    if (this.courseMessageTimer !== null) {
+      window.clearTimeout(this.courseMessageTimer);
+    }
+    this.courseMessageTimer = window.setTimeout(() => {
+      message.classList.add('hidden');
+      this.courseMessageTimer = null;
+    }, 2500);
+  }
+
+  private async retryHole(): Promise<void> {
+    // A better go at the hole can go on the board too
+    const levelNumber = this.levelManager.getGameState().currentLevel;
+    this.players.forEach((_, i) => this.enteredScores.delete(`${levelNumber}:${i}`));
+
+    await this.changeHole(async () => {
+      this.levelManager.restartLevel();
+      return true;
+    });
+  }
+
+  private showHoleSummary(): void {
+    if (this.levelManager.isLastLevel()) {
+      this.showRoundSummary();
+      return;
+    }
+
+    const levelNumber = this.levelManager.getGameState().currentLevel;
+    this.flow.transition('holeComplete');
+    this.scorecardView.show(this.levelManager.getScorecard(), {
+      title: `⛳ Hole ${levelNumber} Complete!`,
+      buttonLabel: 'Next Hole',
+      onContinue: this.continueHandler(() => { this.goToNextLevel(); }),
+      onWatchReplay: () => this.watchReplay('hole', () => this.showHoleSummary()),
+      onViewLeaderboard: this.net ? undefined : () => this.showLeaderboard(levelNumber, () => this.showHoleSummary())
+    });
+  }
+
+  /**
+   * Online, only the host moves everyone on; the relay echoes it back to all peers
+   */
+  private continueHandler(action: () => void): (() => void) | undefined {
+    if (!this.net) return action;
+    if (!this.isHost) return undefined;
+    return () => { this.net?.send({ type: 'advance' }); };
+  }
+
+  private isLocalSeat(playerIndex: number): boolean {
+    return !this.net || this.localSeats.has(playerIndex);
+  }
+
+  private setupOnlineRound(online: OnlineRoundInfo): void {
+    const client = online.client;
+    this.net = client;
+    this.isHost = client.getPlayerId() === online.hostId;
+    this.localSeats = new Set([online.localPlayerIndex]);
+    this.pendingShot = null;
+
+    client.on('shot', (message) => {
+      const ball = this.balls[message.playerIndex];
+      if (!ball) return;
+
+      this.pendingShot = { shotId: message.shotId, shooter: message.playerIndex, synced: false };
+
+      // Everyone plays the shot against the moving obstacles as the shooter saw them
+      this.levelManager.getCurrentLevel()?.setCourseTime(message.courseTime);
+      ball.hit(new THREE.Vector3(message.direction[0], 0, message.direction[1]), message.power);
+    });
+
+    client.on('rest', (message) => {
+      this.applyRestSnapshot(message.balls);
+      if (this.pendingShot && this.pendingShot.shotId === message.shotId) {
+        this.pendingShot.synced = true;
+      }
+    });
+
+    client.on('advance', () => {
+      this.scorecardView.hide();
+      if (this.levelManager.isLastLevel()) {
+        this.restartRound();
+      } else {
+        this.goToNextLevel();
+      }
+    });
+
+    client.on('left', (message) => {
+      console.log(`👋 ${this.players[message.playerIndex]?.name} left the game`);
+      this.isHost = client.getPlayerId() === message.hostId;
+
+      // The host plays for anyone who dropped out so the round can finish
+      if (this.isHost) {
+        this.localSeats.add(message.playerIndex);
+      }
+      this.refreshAimControls();
+    });
+
+    client.on('error', (message) => {
+      console.warn(`⚠️ Relay: ${message.message}`);
+    });
+
+    client.setCloseCallback(() => {
+      console.warn('⚠️ Lost connection to the relay, continuing on this machine');
+      this.net = null;
+      this.pendingShot = null;
+      this.refreshAimControls();
+      this.refreshKeyHints();
+    });
+  }
+
+  /**
+   * Shots can only be lined up while aiming, by whoever has the turn on this machine
+   */
+  private refreshAimControls(): void {
+    if (!this.turnManager || this.turnManager.getIsWaitingForRest()) return;
+    this.ballControls?.setEnabled(this.flow.is('aiming') && this.isLocalSeat(this.turnManager.getCurrentPlayerIndex()));
+  }
+
+  /**
+   * Turn-advance guard for online rounds. The shooter's simulation is authoritative:
+   * the shooter publishes where every ball ended up, everyone else waits for that.
+   */
+  private syncOnlineRest(): boolean {
+    if (!this.net || !this.pendingShot) return true;
+
+    if (this.localSeats.has(this.pendingShot.shooter)) {
+      this.net.send({
+        type: 'rest',
+        shotId: this.pendingShot.shotId,
+        balls: this.snapshotBalls(),
+        nextPlayerIndex: this.turnManager?.getNextPlayerIndex() ?? null
+      });
+      this.pendingShot = null;
+      return true;
+    }
+
+    if (this.pendingShot.synced) {
+      this.pendingShot = null;
+      return true;
+    }
+    return false;
+  }
+
+  private snapshotBalls(): BallSnapshot[] {
+    return this.balls.map((ball, playerIndex) => {
+      const position = ball.getPosition();
+      return {
+        playerIndex,
+        position: [position.x, position.y, position.z],
+        holed: this.turnManager?.isHoled(playerIndex) ?? false
+      };
+    });
+  }
+
+  private applyRestSnapshot(snapshots: BallSnapshot[]): void {
+    snapshots.forEach(({ playerIndex, position, holed }) => {
+      const ball = this.balls[playerIndex];
+      if (!ball || !this.turnManager) return;
+
+      if (holed && !this.turnManager.isHoled(playerIndex)) {
+        // Our simulation missed the cup where the shooter's made it
+        this.onBallHoled(playerIndex);
+      } else if (!holed && this.turnManager.isHoled(playerIndex)) {
+        console.warn(`⚠️ Ball ${playerIndex} is holed here but not for the shooter, keeping local result`);
+      } else if (ball.isInPlay()) {
+        ball.setPosition(new THREE.Vector3(...position));
+      }
+    });
+  }
+
+  private updateTurnIndicator(): void {
+    const indicator = document.getElementById('turn-indicator');
+    if (!indicator) return;
+
+    const player = this.turnManager?.getCurrentPlayer();
+    if (!player || this.balls.length < 2) {
+      indicator.classList.add('hidden');
+      return;
+    }
+
+    const color = `#${player.color.toString(16).padStart(6, '0')}`;
+    indicator.textContent = `🎯 ${player.name}'s turn`;
+    indicator.style.borderColor = color;
+    indicator.classList.remove('hidden');
   }
 
   private async goToNextLevel(): Promise<void> {
-    // Try to load next level
-    const success = await this.levelManager.nextLevel();
-    if (success) {
+    // Finishing a play-test hole drops the designer back into the editor
+    if (this.editor?.getIsPlayTesting()) {
+      this.editor.stopPlayTest();
+      return;
+    }
+
+    if (this.levelManager.getNextLevelNumber() !== null) {
       console.log('🚀 Moving to next level');
-      this.createBall(); // Create ball at new level's start position
+      await this.changeHole(() => this.levelManager.nextLevel());
     } else {
       console.log('🎉 All levels completed! Congratulations!');
-      // For now, restart from level 1
-      await this.levelManager.loadLevel(1);
-      this.createBall();
+      this.showRoundSummary();
+    }
+  }
+
+  private showRoundSummary(): void {
+    this.recordRound();
+    this.flow.transition('roundSummary');
+
+    this.scorecardView.show(this.levelManager.getScorecard(), {
+      title: '🏆 Round Complete!',
+      buttonLabel: 'Play Again',
+      onContinue: this.continueHandler(() => { this.restartRound(); }),
+      onWatchReplay: this.replayRecorder.hasShots()
+        ? () => this.watchReplay('hole', () => this.showRoundSummary())
+        : undefined,
+      onViewLeaderboard: this.net ? undefined : () => this.showLeaderboard('course', () => this.showRoundSummary())
+    });
+  }
+
+  /**
+   * Open a leaderboard with name entry for this browser's players who finished it and haven't entered yet
+   */
+  private showLeaderboard(board: LeaderboardId, onClose: () => void): void {
+    const scorecard = this.levelManager.getScorecard();
+    const hole = board === 'course' ? null : scorecard.getHole(board);
+    const holeCount = scorecard.getHoles().length;
+
+    const pending: PendingScore[] = [];
+    this.players.forEach((player, i) => {
+      if (!this.isLocalSeat(i) || this.enteredScores.has(`${board}:${i}`)) return;
+
+      if (hole?.completed[i]) {
+        pending.push({ playerIndex: i, name: player.name, strokes: hole.strokes[i], time: hole.times[i] });
+      } else if (board === 'course' && this.levelManager.isFullCourse() && scorecard.getCompletedHoleCount(i) === holeCount) {
+        pending.push({ playerIndex: i, name: player.name, strokes: scorecard.getTotalStrokes(i), time: scorecard.getTotalTime(i) });
+      }
+    });
+
+    this.leaderboardView.show({
+      board,
+      pending,
+      onEnter: (score) => this.enteredScores.add(`${board}:${score.playerIndex}`),
+      onClose
+    });
+  }
+
+  /**
+   * Freeze the hole and play back what was recorded on it so far
+   */
+  private watchReplay(scope: ReplayScope, onClose?: () => void): void {
+    const replay = this.replayRecorder.getReplay();
+    if (!replay) {
+      console.log('🎬 Nothing to replay yet, wait for the ball to stop');
+      return;
+    }
+
+    // Hide the live balls behind the replay's ghosts and put them back afterwards
+    const wasVisible = this.balls.map(ball => ball.getMesh().visible);
+    const controlsWereEnabled = this.ballControls?.isEnabled() ?? false;
+    this.balls.forEach(ball => { ball.getMesh().visible = false; });
+    this.ballControls?.setEnabled(false);
+
+    this.replayViewer.open(replay, scope, () => {
+      this.balls.forEach((ball, i) => { ball.getMesh().visible = wasVisible[i]; });
+      this.ballControls?.setEnabled(controlsWereEnabled);
+      onClose?.();
+    });
+  }
+
+  private async importReplay(): Promise<void> {
+    const input = document.getElementById('replay-import-input') as HTMLInputElement;
+    const status = document.getElementById('replay-status');
+    const file = input.files?.[0];
+    input.value = ''; // Allow importing the same file twice
+    if (!file) return;
+
+    let replay: ReplayData;
+    try {
+      replay = parseReplayData(JSON.parse(await file.text()), file.name);
+    } catch (error) {
+      console.error('❌ Failed to import replay:', error);
+      if (status) status.textContent = error instanceof Error ? error.message : 'Failed to import replay';
+      return;
     }
+    if (status) status.textContent = '';
+
+    // Play it back on the course it was recorded on
+    console.log(`📂 Imported replay ${file.name}`);
+    this.disposeBalls();
+    await this.levelManager.loadCustomLevel(structuredClone(replay.level));
+    document.getElementById('welcome-screen')?.classList.add('hidden');
+    document.getElementById('game-container')?.classList.remove('hidden');
+
+    this.replayViewer.open(replay, 'hole', async () => {
+      // Back to the regular course and the welcome screen
+      await this.loadMenuCourse();
+      document.getElementById('welcome-screen')?.classList.remove('hidden');
+    });
+  }
+
+  /**
+   * Count the finished round once, with the best full-course total among this browser's players
+   */
+  private recordRound(): void {
+    if (this.roundRecorded) return;
+    this.roundRecorded = true;
+
+    const scorecard = this.levelManager.getScorecard();
+    const holeCount = scorecard.getHoles().length;
+    const totals = this.players
+      .map((_, i) => i)
+      .filter(i => this.isLocalSeat(i) && scorecard.getCompletedHoleCount(i) === holeCount)
+      .map(i => scorecard.getTotalStrokes(i));
+
+    this.save.recordRound(this.levelManager.isFullCourse() && totals.length > 0 ? Math.min(...totals) : null);
+    this.progressPanel.render();
+  }
+
+  private async restartRound(): Promise<void> {
+    await this.changeHole(() => {
+      this.roundRecorded = false;
+      this.enteredScores.clear();
+      return this.levelManager.resetGame();
+    });
+  }
+
+  private async enterEditor(): Promise<void> {
+    if (this.editor) return;
+
+    console.log('\n🛠️ Entering level editor...');
+    this.disposeBalls();
+
+    this.editor = new LevelEditor(this.scene, this.camera, this.renderer.domElement, this.levelManager, {
+      onPlayTestStart: () => {
+        this.controls.enableRotate = true;
+        this.beginHole();
+      },
+      onPlayTestEnd: () => {
+        this.holeCompleteView.hide();
+        this.disposeBalls();
+        this.flow.transition('menu');
+        this.setEditorCamera();
+      },
+      onInteractionStart: () => { this.controls.enabled = false; },
+      onInteractionEnd: () => { this.controls.enabled = true; },
+      onExit: () => { this.exitEditor(); }
+    });
+
+    this.setEditorCamera();
+    await this.editor.open();
+  }
+
+  private async exitEditor(): Promise<void> {
+    if (!this.editor) return;
+
+    this.editor.close();
+    this.editor = null;
+    this.controls.enableRotate = true;
+    this.controls.enabled = true;
+
+    // Put the regular course back and return to the welcome screen
+    await this.loadMenuCourse();
+    document.getElementById('welcome-screen')?.classList.remove('hidden');
+  }
+
+  private setEditorCamera(): void {
+    // Straight down over the grid; left mouse edits, right mouse pans, wheel zooms
+    this.controls.enableRotate = false;
+    this.camera.position.set(0, 20, 0.01);
+    this.controls.target.set(0, 0, 0);
+    this.controls.update();
   }
 }
 
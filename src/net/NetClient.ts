@@ -0,0 +1,100 @@
+import { ClientMessage, ServerMessage, ServerMessageType } from './protocol';
+
+type MessageHandler<K extends ServerMessageType> = (message: Extract<ServerMessage, { type: K }>) => void;
+
+type MessageHandlers = { [K in ServerMessageType]: MessageHandler<K>[] };
+
+function createHandlers(): MessageHandlers {
+  return { joined: [], lobby: [], started: [], shot: [], rest: [], advance: [], left: [], error: [] };
+}
+
+/**
+ * Thin WebSocket wrapper speaking the relay protocol
+ */
+export class NetClient {
+  private socket: WebSocket | null = null;
+  private handlers: MessageHandlers = createHandlers();
+  private onCloseCallback?: () => void;
+  private playerId: string | null = null;
+  private roomCode: string | null = null;
+
+  connect(url: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url);
+
+      socket.addEventListener('open', () => {
+        console.log(`🛰️ Connected to relay at ${url}`);
+        resolve();
+      });
+      socket.addEventListener('error', () => reject(new Error(`Could not connect to ${url}`)));
+      socket.addEventListener('close', () => {
+        console.log('🛰️ Disconnected from relay');
+        this.socket = null;
+        this.onCloseCallback?.();
+      });
+      socket.addEventListener('message', (event) => this.dispatch(event.data));
+
+      this.socket = socket;
+    });
+  }
+
+  on<K extends ServerMessageType>(type: K, handler: MessageHandler<K>): void {
+    this.handlers[type].push(handler);
+  }
+
+  setCloseCallback(callback: () => void): void {
+    this.onCloseCallback = callback;
+  }
+
+  send(message: ClientMessage): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    } else {
+      console.warn('⚠️ Tried to send while disconnected:', message.type);
+    }
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.socket = null;
+    this.handlers = createHandlers();
+  }
+
+  isConnected(): boolean {
+    return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  getPlayerId(): string | null {
+    return this.playerId;
+  }
+
+  getRoomCode(): string | null {
+    return this.roomCode;
+  }
+
+  private dispatch(raw: string): void {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      console.error('❌ Malformed message from relay:', raw);
+      return;
+    }
+    if (typeof message !== 'object' || message === null) {
+      console.error('❌ Malformed message from relay:', raw);
+      return;
+    }
+
+    if (message.type === 'joined') {
+      this.playerId = message.playerId;
+      this.roomCode = message.roomCode;
+    }
+
+    this.notify(message.type, message);
+  }
+
+  private notify<K extends ServerMessageType>(type: K, message: Extract<ServerMessage, { type: K }>): void {
+    // Unknown types from a newer relay have no handler list
+    this.handlers[type]?.forEach(handler => handler(message));
+  }
+}
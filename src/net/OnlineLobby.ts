@@ -0,0 +1,111 @@
+import { NetClient } from './NetClient';
+import { DEFAULT_RELAY_PORT, NetPlayer } from './protocol';
+import { PlayerSetupResult } from '../players/PlayerSetup';
+import { TurnOrder } from '../players/Player';
+import { Difficulty } from '../aiming/Difficulty';
+
+export interface OnlineRoundInfo {
+  client: NetClient;
+  localPlayerIndex: number;
+  hostId: string;
+}
+
+/**
+ * Online lobby on the welcome screen: connect to a relay, create or join a room by code,
+ * and wait for the host to start the round
+ */
+export class OnlineLobby {
+  private client: NetClient | null = null;
+  private hostId: string | null = null;
+  private onStart: (setup: PlayerSetupResult, online: OnlineRoundInfo) => void;
+
+  constructor(onStart: (setup: PlayerSetupResult, online: OnlineRoundInfo) => void) {
+    this.onStart = onStart;
+
+    const serverInput = document.getElementById('online-server') as HTMLInputElement | null;
+    if (serverInput && !serverInput.value) {
+      serverInput.value = `ws://${window.location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`;
+    }
+
+    document.getElementById('online-create-btn')?.addEventListener('click', () => this.enterRoom(null));
+    document.getElementById('online-join-btn')?.addEventListener('click', () => {
+      const code = (document.getElementById('online-room-code') as HTMLInputElement).value.trim().toUpperCase();
+      if (code.length === 0) {
+        this.setStatus('Enter a room code to join');
+        return;
+      }
+      this.enterRoom(code);
+    });
+    document.getElementById('online-start-btn')?.addEventListener('click', () => {
+      const order = (document.getElementById('online-turn-order') as HTMLSelectElement).value as TurnOrder;
+      this.client?.send({ type: 'start', order });
+    });
+  }
+
+  private async enterRoom(roomCode: string | null): Promise<void> {
+    const url = (document.getElementById('online-server') as HTMLInputElement).value.trim();
+    const name = (document.getElementById('online-name') as HTMLInputElement).value.trim() || 'Player';
+    const color = parseInt((document.getElementById('online-color') as HTMLInputElement).value.slice(1), 16);
+
+    this.client?.close();
+    const client = new NetClient();
+    this.client = client;
+
+    try {
+      this.setStatus(`Connecting to ${url}...`);
+      await client.connect(url);
+    } catch (error) {
+      this.setStatus(error instanceof Error ? error.message : 'Connection failed');
+      this.client = null;
+      return;
+    }
+
+    client.on('joined', (message) => {
+      this.setStatus(`In room ${message.roomCode}. Share the code with your friends!`);
+    });
+    client.on('lobby', (message) => {
+      this.hostId = message.hostId;
+      this.renderPlayers(message.players);
+    });
+    client.on('error', (message) => {
+      this.setStatus(`⚠️ ${message.message}`);
+    });
+    client.on('started', (message) => {
+      const localPlayerIndex = message.players.findIndex(player => player.id === client.getPlayerId());
+      // Difficulty only changes this player's aiming aids, so everyone picks their own
+      const difficulty = (document.getElementById('online-difficulty') as HTMLSelectElement).value as Difficulty;
+      this.onStart(
+        { players: message.players.map(({ name, color }) => ({ name, color })), order: message.order, difficulty },
+        { client, localPlayerIndex, hostId: this.hostId! }
+      );
+    });
+
+    if (roomCode) {
+      client.send({ type: 'join', roomCode, name, color });
+    } else {
+      client.send({ type: 'create', name, color });
+    }
+  }
+
+  private renderPlayers(players: NetPlayer[]): void {
+    const list = document.getElementById('online-players');
+    if (list) {
+      list.innerHTML = '';
+      players.forEach(player => {
+        const item = document.createElement('li');
+        item.textContent = `${player.name}${player.id === this.hostId ? ' (host)' : ''}`;
+        item.style.color = `#${player.color.toString(16).padStart(6, '0')}`;
+        list.appendChild(item);
+      });
+    }
+
+    // Only the host gets to start the round
+    const isHost = this.client?.getPlayerId() === this.hostId;
+    document.getElementById('online-start-btn')?.classList.toggle('hidden', !isHost);
+  }
+
+  private setStatus(message: string): void {
+    const status = document.getElementById('online-status');
+    if (status) status.textContent = message;
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Wire protocol shared by the game client and the relay server (server/relay.ts).
+ * Every message is a JSON object with a `type` tag.
+ */
+
+import { TurnOrder } from '../players/Player';
+
+export const DEFAULT_RELAY_PORT = 8787;
+export const ROOM_CODE_LENGTH = 4;
+
+// Hardest shot the controls can play; the relay turns down anything stronger
+export const MAX_SHOT_POWER = 15;
+
+export interface NetPlayer {
+  id: string;
+  name: string;
+  color: number;
+  connected: boolean;
+}
+
+export interface BallSnapshot {
+  playerIndex: number;
+  position: [number, number, number];
+  holed: boolean;
+}
+
+// Messages sent by clients
+export type ClientMessage =
+  | { type: 'create'; name: string; color: number }
+  | { type: 'join'; roomCode: string; name: string; color: number }
+  | { type: 'start'; order: TurnOrder }
+  | { type: 'shot'; playerIndex: number; direction: [number, number]; power: number; courseTime: number }
+  | { type: 'rest'; shotId: number; balls: BallSnapshot[]; nextPlayerIndex: number | null } // null once everyone is in
+  | { type: 'advance' };
+
+// Messages sent by the server
+export type ServerMessage =
+  | { type: 'joined'; roomCode: string; playerId: string }
+  | { type: 'lobby'; players: NetPlayer[]; hostId: string }
+  | { type: 'started'; players: NetPlayer[]; order: TurnOrder }
+  | { type: 'shot'; shotId: number; playerIndex: number; direction: [number, number]; power: number; courseTime: number }
+  | { type: 'rest'; shotId: number; balls: BallSnapshot[] }
+  | { type: 'advance' }
+  | { type: 'left'; playerIndex: number; hostId: string }
+  | { type: 'error'; message: string };
+
+export type ServerMessageType = ServerMessage['type'];
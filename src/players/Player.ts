@@ -0,0 +1,6 @@
+export type TurnOrder = 'rotation' | 'farthest';
+
+export interface PlayerConfig {
+  name: string;
+  color: number;
+}
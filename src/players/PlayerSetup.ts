@@ -0,0 +1,101 @@
+import { PlayerConfig, TurnOrder } from './Player';
+import { Difficulty } from '../aiming/Difficulty';
+
+export interface PlayerSetupResult {
+  players: PlayerConfig[];
+  order: TurnOrder;
+  difficulty: Difficulty;
+  startLevel?: number; // Hole picked from the progress list; rounds start at the first hole otherwise
+}
+
+export const MAX_PLAYERS = 4;
+
+// Default ball colors, one per seat
+const DEFAULT_COLORS = ['#ffffff', '#e53935', '#1e88e5', '#fdd835'];
+
+/**
+ * Player setup form on the welcome screen: names, ball colors, turn order and difficulty
+ */
+export class PlayerSetup {
+  private countSelect: HTMLSelectElement;
+  private rowsContainer: HTMLElement;
+  private orderSelect: HTMLSelectElement;
+  private difficultySelect: HTMLSelectElement;
+  private startLabel: HTMLElement | null;
+  private startLevel: number | null = null;
+  private onStart: (result: PlayerSetupResult) => void;
+
+  constructor(onStart: (result: PlayerSetupResult) => void) {
+    this.onStart = onStart;
+    this.countSelect = document.getElementById('player-count') as HTMLSelectElement;
+    this.rowsContainer = document.getElementById('player-rows')!;
+    this.orderSelect = document.getElementById('turn-order') as HTMLSelectElement;
+    this.difficultySelect = document.getElementById('difficulty') as HTMLSelectElement;
+    this.startLabel = document.getElementById('player-setup-start');
+
+    this.countSelect.addEventListener('change', () => this.renderRows());
+    document.getElementById('start-game-btn')?.addEventListener('click', () => this.setStartLevel(null));
+    document.getElementById('tee-off-btn')?.addEventListener('click', () => this.submit());
+
+    this.renderRows();
+  }
+
+  /**
+   * Preselect the turn order and difficulty, e.g. the ones used last time
+   */
+  setDefaults(order: TurnOrder, difficulty: Difficulty): void {
+    this.orderSelect.value = order;
+    this.difficultySelect.value = difficulty;
+  }
+
+  setStartLevel(levelNumber: number | null): void {
+    this.startLevel = levelNumber;
+    if (this.startLabel) {
+      this.startLabel.textContent = levelNumber === null ? '' : `Starting from hole ${levelNumber}`;
+    }
+  }
+
+  private renderRows(): void {
+    const count = parseInt(this.countSelect.value, 10) || 1;
+
+    // Keep whatever was typed into seats that stay
+    while (this.rowsContainer.children.length > count) {
+      this.rowsContainer.lastElementChild!.remove();
+    }
+
+    for (let i = this.rowsContainer.children.length; i < count; i++) {
+      const row = document.createElement('div');
+      row.className = 'player-row';
+
+      const nameInput = document.createElement('input');
+      nameInput.type = 'text';
+      nameInput.value = `Player ${i + 1}`;
+      nameInput.maxLength = 16;
+
+      const colorInput = document.createElement('input');
+      colorInput.type = 'color';
+      colorInput.value = DEFAULT_COLORS[i % DEFAULT_COLORS.length];
+
+      row.appendChild(nameInput);
+      row.appendChild(colorInput);
+      this.rowsContainer.appendChild(row);
+    }
+  }
+
+  private submit(): void {
+    const players = Array.from(this.rowsContainer.children).map((row, i) => {
+      const [nameInput, colorInput] = Array.from(row.querySelectorAll('input'));
+      return {
+        name: nameInput.value.trim() || `Player ${i + 1}`,
+        color: parseInt(colorInput.value.slice(1), 16)
+      };
+    });
+
+    this.onStart({
+      players,
+      order: this.orderSelect.value as TurnOrder,
+      difficulty: this.difficultySelect.value as Difficulty,
+      startLevel: this.startLevel ?? undefined
+    });
+  }
+}
@@ -0,0 +1,160 @@
+import * as THREE from 'three';
+import { Ball } from '../Ball';
+import { PlayerConfig, TurnOrder } from './Player';
+
+/**
+ * Decides whose turn it is on the current hole.
+ * Balls wait off the course until their player tees off and leave it again once holed.
+ */
+export class TurnManager {
+  private players: PlayerConfig[];
+  private order: TurnOrder;
+  private balls: Ball[] = [];
+  private teePosition: THREE.Vector3 = new THREE.Vector3();
+  private goalPosition: THREE.Vector3 = new THREE.Vector3();
+  private currentIndex: number = 0;
+  private teedOff: boolean[] = [];
+  private holed: boolean[] = [];
+  private isWaitingForRest: boolean = false;
+  private onTurnChange?: (playerIndex: number) => void;
+  private turnAdvanceGuard?: () => boolean;
+
+  constructor(players: PlayerConfig[], order: TurnOrder) {
+    this.players = players;
+    this.order = order;
+  }
+
+  setTurnChangeCallback(callback: (playerIndex: number) => void): void {
+    this.onTurnChange = callback;
+  }
+
+  /**
+   * Extra condition checked once all balls are at rest before the turn passes,
+   * e.g. waiting for the shooter's positions in an online round
+   */
+  setTurnAdvanceGuard(guard: () => boolean): void {
+    this.turnAdvanceGuard = guard;
+  }
+
+  /**
+   * Begin a hole with one ball per player, all starting from the tee
+   */
+  startHole(balls: Ball[], teePosition: THREE.Vector3, goalPosition: THREE.Vector3): void {
+    this.balls = balls;
+    this.teePosition = teePosition.clone();
+    this.goalPosition = goalPosition.clone();
+    this.teedOff = balls.map(() => false);
+    this.holed = balls.map(() => false);
+    this.isWaitingForRest = false;
+
+    // Only the player on the tee has a ball on the course
+    this.balls.forEach(ball => ball.setInPlay(false));
+    this.activate(0);
+  }
+
+  /**
+   * Called when the current player takes a shot
+   */
+  notifyShot(): void {
+    this.isWaitingForRest = true;
+  }
+
+  /**
+   * Take a holed ball out of play until everyone finishes
+   */
+  markHoled(playerIndex: number): void {
+    this.holed[playerIndex] = true;
+    this.balls[playerIndex].setInPlay(false);
+    console.log(`⛳ ${this.players[playerIndex].name} is in the hole`);
+  }
+
+  /**
+   * Pass the turn once every ball on the course has stopped rolling
+   */
+  update(): void {
+    if (!this.isWaitingForRest) return;
+    if (!this.balls.every(ball => ball.isAtRest())) return;
+    if (this.turnAdvanceGuard && !this.turnAdvanceGuard()) return;
+
+    this.isWaitingForRest = false;
+
+    if (!this.isHoleFinished()) {
+      this.activate(this.pickNextPlayer());
+    }
+  }
+
+  /**
+   * Who plays after the current shot, or null when everyone is in. Valid once all balls are at rest.
+   */
+  getNextPlayerIndex(): number | null {
+    return this.isHoleFinished() ? null : this.pickNextPlayer();
+  }
+
+  isHoleFinished(): boolean {
+    return this.holed.length > 0 && this.holed.every(done => done);
+  }
+
+  isHoled(playerIndex: number): boolean {
+    return this.holed[playerIndex] === true;
+  }
+
+  getIsWaitingForRest(): boolean {
+    return this.isWaitingForRest;
+  }
+
+  getCurrentPlayerIndex(): number {
+    return this.currentIndex;
+  }
+
+  getCurrentPlayer(): PlayerConfig {
+    return this.players[this.currentIndex];
+  }
+
+  getCurrentBall(): Ball | null {
+    return this.balls[this.currentIndex] || null;
+  }
+
+  getPlayers(): PlayerConfig[] {
+    return this.players;
+  }
+
+  private pickNextPlayer(): number {
+    const remaining = this.players
+      .map((_, index) => index)
+      .filter(index => !this.holed[index]);
+
+    if (this.order === 'farthest') {
+      // Whoever is farthest from the cup goes next; ties keep the fixed order
+      return remaining.reduce((farthest, index) =>
+        this.distanceToGoal(index) > this.distanceToGoal(farthest) ? index : farthest
+      );
+    }
+
+    // Fixed rotation: the next player after the current one who is still playing
+    for (let step = 1; step <= this.players.length; step++) {
+      const index = (this.currentIndex + step) % this.players.length;
+      if (!this.holed[index]) return index;
+    }
+    return this.currentIndex;
+  }
+
+  private distanceToGoal(playerIndex: number): number {
+    const position = this.teedOff[playerIndex] ? this.balls[playerIndex].getPosition() : this.teePosition;
+    return Math.hypot(position.x - this.goalPosition.x, position.z - this.goalPosition.z);
+  }
+
+  private activate(playerIndex: number): void {
+    this.currentIndex = playerIndex;
+
+    // First shot of the hole: put the ball down on the tee
+    if (!this.teedOff[playerIndex]) {
+      this.teedOff[playerIndex] = true;
+      const ball = this.balls[playerIndex];
+      ball.setPosition(this.teePosition);
+      ball.setInPlay(true);
+    }
+
+    console.log(`🎯 ${this.players[playerIndex].name}'s turn`);
+    this.onTurnChange?.(playerIndex);
+  }
+}
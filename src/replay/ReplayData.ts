@@ -0,0 +1,104 @@
+import { LevelData, Vec3Data, parseLevelData } from '../levels/LevelData';
+import { PlayerConfig } from '../players/Player';
+import { isInteger, isNumber, isRecord } from '../validation';
+
+/**
+ * Current version of the replay file format.
+ * Bump this whenever the schema changes in a way older files can't satisfy.
+ */
+export const REPLAY_FORMAT_VERSION = 1;
+
+// [x, y, z, w]
+export type QuatData = [number, number, number, number];
+
+export interface BallSample {
+  position: Vec3Data;
+  quaternion: QuatData;
+}
+
+export interface ReplayFrame {
+  time: number; // Seconds of simulation time since the shot was hit
+  balls: (BallSample | null)[]; // One entry per player, null while the ball is off the course
+}
+
+export interface ShotRecord {
+  playerIndex: number;
+  // Exactly what was passed to Ball.hit
+  direction: Vec3Data;
+  power: number;
+  courseTime?: number; // Course clock when the shot was hit, to line moving obstacles up
+  frames: ReplayFrame[];
+}
+
+export interface ReplayData {
+  version: number;
+  recordedAt: string; // ISO timestamp
+  level: LevelData; // Embedded so a replay plays back on the course it was recorded on
+  players: PlayerConfig[];
+  shots: ShotRecord[];
+}
+
+function fail(source: string, message: string): never {
+  throw new Error(`Invalid replay data in ${source}: ${message}`);
+}
+
+function isTuple(value: unknown, length: number): boolean {
+  return Array.isArray(value) && value.length === length && value.every(isNumber);
+}
+
+function validateShot(shot: unknown, playerCount: number, source: string, index: number): void {
+  const where = `shots[${index}]`;
+
+  if (!isRecord(shot)) fail(source, `${where} must be an object`);
+  if (!isInteger(shot.playerIndex) || shot.playerIndex < 0 || shot.playerIndex >= playerCount) {
+    fail(source, `${where}.playerIndex must point at a player`);
+  }
+  if (!isTuple(shot.direction, 3)) fail(source, `${where}.direction must be [x, y, z]`);
+  if (!isNumber(shot.power) || shot.power < 0) fail(source, `${where}.power must be a non-negative number`);
+  if (shot.courseTime !== undefined && !isNumber(shot.courseTime)) fail(source, `${where}.courseTime must be a number`);
+  if (!Array.isArray(shot.frames) || shot.frames.length === 0) fail(source, `${where}.frames needs at least one frame`);
+
+  let previousTime = -Infinity;
+  shot.frames.forEach((frame: unknown, i: number) => {
+    if (!isRecord(frame) || !isNumber(frame.time) || frame.time < previousTime) {
+      fail(source, `${where}.frames[${i}].time must be a number that never goes backwards`);
+    }
+    previousTime = frame.time;
+
+    if (!Array.isArray(frame.balls) || frame.balls.length !== playerCount) {
+      fail(source, `${where}.frames[${i}].balls needs one entry per player`);
+    }
+    frame.balls.forEach((sample: unknown, ball: number) => {
+      if (sample === null) return;
+      if (!isRecord(sample) || !isTuple(sample.position, 3) || !isTuple(sample.quaternion, 4)) {
+        fail(source, `${where}.frames[${i}].balls[${ball}] needs position [x, y, z] and quaternion [x, y, z, w]`);
+      }
+    });
+  });
+}
+
+/**
+ * Validate raw JSON against the replay schema, including the embedded level
+ */
+export function parseReplayData(data: unknown, source: string = 'replay'): ReplayData {
+  if (!isRecord(data)) fail(source, 'expected an object');
+  if (data.version !== REPLAY_FORMAT_VERSION) {
+    fail(source, `unsupported version ${data.version} (expected ${REPLAY_FORMAT_VERSION})`);
+  }
+  if (typeof data.recordedAt !== 'string') fail(source, 'recordedAt is required');
+
+  parseLevelData(data.level, `${source} (level)`);
+
+  if (!Array.isArray(data.players) || data.players.length === 0) fail(source, 'players must be a non-empty array');
+  data.players.forEach((player: unknown, i: number) => {
+    if (!isRecord(player) || typeof player.name !== 'string' || !isInteger(player.color)) {
+      fail(source, `players[${i}] needs a name and a color`);
+    }
+  });
+
+  if (!Array.isArray(data.shots) || data.shots.length === 0) fail(source, 'shots must be a non-empty array');
+  const playerCount = data.players.length;
+  data.shots.forEach((shot: unknown, i: number) => validateShot(shot, playerCount, source, i));
+
+  return data as unknown as ReplayData;
+}
@@ -0,0 +1,266 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { BallSample, ReplayData, ReplayFrame } from './ReplayData';
+
+export type ReplayCameraMode = 'follow' | 'overview' | 'cup' | 'free';
+
+// How quickly the scripted cameras catch up with their target (per second)
+const CAMERA_SMOOTHING = 4;
+
+interface ShotSegment {
+  startTime: number; // Offset of the shot on the replay timeline
+  duration: number;
+  playerIndex: number;
+  courseTime?: number;
+  frames: ReplayFrame[];
+}
+
+/**
+ * Plays a recorded replay back with ghost balls: play/pause, scrubbing,
+ * playback speed and a choice of cameras
+ */
+export class ReplayPlayer {
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private controls: OrbitControls;
+  private replay: ReplayData | null = null;
+  private segments: ShotSegment[] = [];
+  private ghosts: THREE.Mesh[] = [];
+  private duration: number = 0;
+  private time: number = 0;
+  private speed: number = 1;
+  private isPlaying: boolean = false;
+  private cameraMode: ReplayCameraMode = 'follow';
+  private savedCamera: { position: THREE.Vector3; target: THREE.Vector3 } | null = null;
+  private onCourseTime?: (time: number) => void;
+
+  /**
+   * onCourseTime is told where the course clock was at each point of playback,
+   * so whoever draws the course can move its obstacles to match
+   */
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.PerspectiveCamera,
+    controls: OrbitControls,
+    onCourseTime?: (time: number) => void
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.controls = controls;
+    this.onCourseTime = onCourseTime;
+  }
+
+  load(replay: ReplayData): void {
+    this.unload();
+    this.replay = replay;
+
+    // Lay the shots end to end on one timeline
+    let startTime = 0;
+    this.segments = replay.shots.map(shot => {
+      const duration = shot.frames[shot.frames.length - 1].time;
+      const segment = { startTime, duration, playerIndex: shot.playerIndex, courseTime: shot.courseTime, frames: shot.frames };
+      startTime += duration;
+      return segment;
+    });
+    this.duration = startTime;
+
+    this.ghosts = replay.players.map((player, index) => {
+      const mesh = new THREE.Mesh(
+        new THREE.SphereGeometry(0.3, 16, 12),
+        new THREE.MeshLambertMaterial({ color: player.color, transparent: true, opacity: 0.9 })
+      );
+      mesh.name = `replay-ball-${index}`;
+      mesh.castShadow = true;
+      mesh.visible = false;
+      this.scene.add(mesh);
+      return mesh;
+    });
+
+    this.savedCamera = { position: this.camera.position.clone(), target: this.controls.target.clone() };
+    this.time = 0;
+    this.isPlaying = true;
+    this.applyTime(true);
+  }
+
+  unload(): void {
+    this.ghosts.forEach(mesh => {
+      this.scene.remove(mesh);
+      mesh.geometry.dispose();
+      (mesh.material as THREE.Material).dispose();
+    });
+    this.ghosts = [];
+    this.segments = [];
+    this.replay = null;
+    this.isPlaying = false;
+
+    // Hand the camera back where the player left it
+    if (this.savedCamera) {
+      this.camera.position.copy(this.savedCamera.position);
+      this.controls.target.copy(this.savedCamera.target);
+      this.savedCamera = null;
+    }
+  }
+
+  /**
+   * Advance playback by a frame of wall-clock time
+   */
+  update(deltaTime: number): void {
+    if (!this.replay) return;
+
+    if (this.isPlaying) {
+      this.time = Math.min(this.time + deltaTime * this.speed, this.duration);
+      if (this.time >= this.duration) {
+        this.isPlaying = false;
+      }
+      this.applyTime(false, deltaTime);
+    } else {
+      this.updateCamera(deltaTime, false);
+    }
+  }
+
+  play(): void {
+    // Playing from the very end starts over
+    if (this.time >= this.duration) {
+      this.time = 0;
+    }
+    this.isPlaying = true;
+  }
+
+  pause(): void {
+    this.isPlaying = false;
+  }
+
+  getIsPlaying(): boolean {
+    return this.isPlaying;
+  }
+
+  seek(time: number): void {
+    this.time = THREE.MathUtils.clamp(time, 0, this.duration);
+    this.applyTime(true);
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = speed;
+  }
+
+  setCameraMode(mode: ReplayCameraMode): void {
+    this.cameraMode = mode;
+    this.updateCamera(0, true);
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  getDuration(): number {
+    return this.duration;
+  }
+
+  getReplay(): ReplayData | null {
+    return this.replay;
+  }
+
+  /**
+   * Index of the shot playing at the current time
+   */
+  getCurrentShotIndex(): number {
+    const index = this.segments.findIndex(segment => this.time <= segment.startTime + segment.duration);
+    return index === -1 ? this.segments.length - 1 : index;
+  }
+
+  private applyTime(snapCamera: boolean, deltaTime: number = 0): void {
+    const segment = this.segments[this.getCurrentShotIndex()];
+    if (!segment) return;
+
+    const shotTime = this.time - segment.startTime;
+    if (segment.courseTime !== undefined) {
+      this.onCourseTime?.(segment.courseTime + shotTime);
+    }
+
+    this.ghosts.forEach((ghost, ballIndex) => {
+      const sample = this.sampleAt(segment.frames, ballIndex, shotTime);
+      ghost.visible = sample !== null;
+      if (sample) {
+        ghost.position.set(...sample.position);
+        ghost.quaternion.set(...sample.quaternion);
+      }
+    });
+
+    this.updateCamera(deltaTime, snapCamera);
+  }
+
+  private sampleAt(frames: ReplayFrame[], ballIndex: number, time: number): BallSample | null {
+    let next = frames.findIndex(frame => frame.time >= time);
+    if (next === -1) next = frames.length - 1;
+    const previous = Math.max(0, next - 1);
+
+    const from = frames[previous].balls[ballIndex];
+    const to = frames[next].balls[ballIndex];
+    if (!from || !to) {
+      // Ball came on or went off the course between samples; show whichever side we have
+      return time >= frames[next].time ? to : from;
+    }
+
+    const span = frames[next].time - frames[previous].time;
+    const alpha = span > 0 ? THREE.MathUtils.clamp((time - frames[previous].time) / span, 0, 1) : 1;
+
+    const position = new THREE.Vector3(...from.position).lerp(new THREE.Vector3(...to.position), alpha);
+    const quaternion = new THREE.Quaternion(...from.quaternion).slerp(new THREE.Quaternion(...to.quaternion), alpha);
+    return {
+      position: [position.x, position.y, position.z],
+      quaternion: [quaternion.x, quaternion.y, quaternion.z, quaternion.w]
+    };
+  }
+
+  private updateCamera(deltaTime: number, snap: boolean): void {
+    if (!this.replay || this.cameraMode === 'free') return;
+
+    const segment = this.segments[this.getCurrentShotIndex()];
+    const ghost = segment ? this.ghosts[segment.playerIndex] : undefined;
+    const ballPosition = ghost && ghost.visible ? ghost.position.clone() : this.getCupPosition();
+    const cupPosition = this.getCupPosition();
+
+    const desiredTarget = new THREE.Vector3();
+    const desiredPosition = new THREE.Vector3();
+
+    switch (this.cameraMode) {
+      case 'follow': {
+        // Sit behind the ball, looking the way the shot was played
+        const shot = this.replay.shots[this.getCurrentShotIndex()];
+        const direction = new THREE.Vector3(shot.direction[0], 0, shot.direction[2]);
+        if (direction.lengthSq() === 0) direction.set(0, 0, -1);
+        direction.normalize();
+        desiredTarget.copy(ballPosition);
+        desiredPosition.copy(ballPosition).addScaledVector(direction, -4).add(new THREE.Vector3(0, 2.5, 0));
+        break;
+      }
+      case 'overview': {
+        // High above the middle of the green, far enough up to see all of it
+        const bounds = new THREE.Box2();
+        this.replay.level.floor.polygon.forEach(([x, z]) => bounds.expandByPoint(new THREE.Vector2(x, z)));
+        const center = bounds.getCenter(new THREE.Vector2());
+        const size = bounds.getSize(new THREE.Vector2());
+        desiredTarget.set(center.x, 0, center.y);
+        desiredPosition.set(center.x, Math.max(size.x, size.y) * 1.1 + 4, center.y + 0.01);
+        break;
+      }
+      case 'cup': {
+        // Look back from behind the cup at the approaching ball
+        const awayFromBall = cupPosition.clone().sub(ballPosition).setY(0);
+        if (awayFromBall.lengthSq() < 0.01) awayFromBall.set(0, 0, -1);
+        awayFromBall.normalize();
+        desiredTarget.copy(ballPosition);
+        desiredPosition.copy(cupPosition).addScaledVector(awayFromBall, 3).add(new THREE.Vector3(0, 2, 0));
+        break;
+      }
+    }
+
+    const alpha = snap ? 1 : 1 - Math.exp(-CAMERA_SMOOTHING * deltaTime);
+    this.controls.target.lerp(desiredTarget, alpha);
+    this.camera.position.lerp(desiredPosition, alpha);
+  }
+
+  private getCupPosition(): THREE.Vector3 {
+    return this.replay ? new THREE.Vector3(...this.replay.level.cup.position) : new THREE.Vector3();
+  }
+}
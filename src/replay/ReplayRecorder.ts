@@ -0,0 +1,131 @@
+import * as THREE from 'three';
+import { Ball } from '../Ball';
+import { LevelData } from '../levels/LevelData';
+import { PlayerConfig } from '../players/Player';
+import { BallSample, REPLAY_FORMAT_VERSION, ReplayData, ReplayFrame, ShotRecord } from './ReplayData';
+
+// Seconds of simulation time between samples; playback interpolates in between
+const SAMPLE_INTERVAL = 1 / 30;
+
+// Stop recording a shot that somehow never comes to rest
+const MAX_SHOT_DURATION = 60;
+
+// Keep files small: millimetres are plenty for playback
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Records every shot on the current hole: the inputs to Ball.hit plus periodic
+ * position/quaternion samples of every ball until they all come to rest
+ */
+export class ReplayRecorder {
+  private level: LevelData | null = null;
+  private players: PlayerConfig[] = [];
+  private balls: Ball[] = [];
+  private shots: ShotRecord[] = [];
+  private currentShot: ShotRecord | null = null;
+  private shotTime: number = 0;
+  private timeSinceSample: number = 0;
+
+  /**
+   * Forget the previous hole and start recording a new one
+   */
+  startHole(level: LevelData, players: PlayerConfig[], balls: Ball[]): void {
+    this.level = structuredClone(level);
+    this.players = players.map(player => ({ ...player }));
+    this.balls = balls;
+    this.shots = [];
+    this.currentShot = null;
+  }
+
+  /**
+   * Called with the inputs of every Ball.hit, before the ball starts moving
+   */
+  recordShot(playerIndex: number, direction: THREE.Vector3, power: number, courseTime: number): void {
+    if (!this.level) return;
+
+    this.finishShot();
+    this.currentShot = {
+      playerIndex,
+      direction: [round(direction.x), round(direction.y), round(direction.z)],
+      power: round(power),
+      courseTime,
+      frames: []
+    };
+    this.shotTime = 0;
+    this.timeSinceSample = 0;
+    this.sample();
+  }
+
+  /**
+   * Advance the recording clock by one simulation step
+   */
+  update(deltaTime: number): void {
+    if (!this.currentShot) return;
+
+    this.shotTime += deltaTime;
+    this.timeSinceSample += deltaTime;
+
+    const allAtRest = this.balls.every(ball => ball.isAtRest());
+    if (allAtRest || this.shotTime >= MAX_SHOT_DURATION) {
+      this.finishShot();
+      return;
+    }
+
+    if (this.timeSinceSample >= SAMPLE_INTERVAL) {
+      this.timeSinceSample = 0;
+      this.sample();
+    }
+  }
+
+  isRecordingShot(): boolean {
+    return this.currentShot !== null;
+  }
+
+  hasShots(): boolean {
+    return this.shots.length > 0;
+  }
+
+  /**
+   * Every finished shot on the hole so far, ready to play back or export
+   */
+  getReplay(): ReplayData | null {
+    if (!this.level || this.shots.length === 0) return null;
+
+    return {
+      version: REPLAY_FORMAT_VERSION,
+      recordedAt: new Date().toISOString(),
+      level: structuredClone(this.level),
+      players: this.players.map(player => ({ ...player })),
+      shots: structuredClone(this.shots)
+    };
+  }
+
+  private finishShot(): void {
+    if (!this.currentShot) return;
+
+    // Always end on the resting positions
+    this.sample();
+    this.shots.push(this.currentShot);
+    this.currentShot = null;
+  }
+
+  private sample(): void {
+    if (!this.currentShot) return;
+
+    const frame: ReplayFrame = {
+      time: round(this.shotTime),
+      balls: this.balls.map(ball => this.sampleBall(ball))
+    };
+    this.currentShot.frames.push(frame);
+  }
+
+  private sampleBall(ball: Ball): BallSample | null {
+    if (!ball.isInPlay()) return null;
+
+    const { position, quaternion } = ball.getBody();
+    return {
+      position: [round(position.x), round(position.y), round(position.z)],
+      quaternion: [round(quaternion.x), round(quaternion.y), round(quaternion.z), round(quaternion.w)]
+    };
+  }
+}
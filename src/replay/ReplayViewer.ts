@@ -0,0 +1,199 @@
+import { ReplayData } from './ReplayData';
+import { ReplayCameraMode, ReplayPlayer } from './ReplayPlayer';
+
+export type ReplayScope = 'hole' | 'shot';
+
+// Arrow keys jump this many seconds
+const SEEK_STEP = 1;
+
+/**
+ * Replay panel: picks last shot or whole hole and drives the player from the
+ * play/pause button, scrub bar, speed and camera selectors
+ */
+export class ReplayViewer {
+  private player: ReplayPlayer;
+  private panel: HTMLElement;
+  private replay: ReplayData | null = null;
+  private onClose?: () => void;
+
+  private handlePanelClick = (event: MouseEvent) => this.onPanelClick(event);
+  private handlePanelInput = (event: Event) => this.onPanelInput(event);
+  private handleKeyDown = (event: KeyboardEvent) => this.onKeyDown(event);
+
+  constructor(player: ReplayPlayer) {
+    this.player = player;
+    this.panel = document.getElementById('replay-panel')!;
+  }
+
+  /**
+   * Show a replay; onClose runs when the player closes the panel themselves
+   */
+  open(replay: ReplayData, scope: ReplayScope, onClose?: () => void): void {
+    if (this.replay) this.close(false);
+
+    this.replay = replay;
+    this.onClose = onClose;
+
+    const level = replay.level;
+    this.setText('replay-title', `🎬 Hole ${level.levelNumber}: ${level.name}`);
+    (this.getInput('replay-scope') as HTMLSelectElement).value = scope;
+    (this.getInput('replay-scope') as HTMLSelectElement).disabled = replay.shots.length < 2;
+
+    this.panel.classList.remove('hidden');
+    this.panel.addEventListener('click', this.handlePanelClick);
+    this.panel.addEventListener('input', this.handlePanelInput);
+    window.addEventListener('keydown', this.handleKeyDown);
+
+    this.loadScope(scope);
+    console.log(`🎬 Playing replay of "${level.name}" (${replay.shots.length} shot(s))`);
+  }
+
+  close(notify: boolean = true): void {
+    if (!this.replay) return;
+
+    this.player.unload();
+    this.replay = null;
+    this.panel.classList.add('hidden');
+    this.panel.removeEventListener('click', this.handlePanelClick);
+    this.panel.removeEventListener('input', this.handlePanelInput);
+    window.removeEventListener('keydown', this.handleKeyDown);
+
+    const onClose = this.onClose;
+    this.onClose = undefined;
+    if (notify) onClose?.();
+  }
+
+  isOpen(): boolean {
+    return this.replay !== null;
+  }
+
+  update(deltaTime: number): void {
+    if (!this.replay) return;
+
+    this.player.update(deltaTime);
+    this.syncPanel();
+  }
+
+  private loadScope(scope: ReplayScope): void {
+    if (!this.replay) return;
+
+    const replay = scope === 'shot'
+      ? { ...this.replay, shots: this.replay.shots.slice(-1) }
+      : this.replay;
+
+    this.player.load(replay);
+    this.player.setSpeed(parseFloat(this.getInput('replay-speed').value));
+    this.player.setCameraMode(this.getInput('replay-camera').value as ReplayCameraMode);
+
+    const scrub = this.getInput('replay-scrub') as HTMLInputElement;
+    scrub.max = String(this.player.getDuration());
+    this.syncPanel();
+  }
+
+  private onPanelClick(event: MouseEvent): void {
+    const button = (event.target as HTMLElement).closest('button');
+    if (!button) return;
+
+    switch (button.id) {
+      case 'replay-play':
+        this.togglePlayback();
+        break;
+      case 'replay-restart':
+        this.player.seek(0);
+        this.player.play();
+        break;
+      case 'replay-export':
+        this.exportReplay();
+        break;
+      case 'replay-close':
+        this.close();
+        break;
+    }
+  }
+
+  private onPanelInput(event: Event): void {
+    const input = event.target as HTMLInputElement;
+
+    switch (input.id) {
+      case 'replay-scrub':
+        // Dragging the bar holds the replay still at that moment
+        this.player.pause();
+        this.player.seek(parseFloat(input.value));
+        break;
+      case 'replay-speed':
+        this.player.setSpeed(parseFloat(input.value));
+        break;
+      case 'replay-camera':
+        this.player.setCameraMode(input.value as ReplayCameraMode);
+        break;
+      case 'replay-scope':
+        this.loadScope(input.value as ReplayScope);
+        break;
+    }
+    this.syncPanel();
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case ' ':
+        event.preventDefault();
+        this.togglePlayback();
+        break;
+      case 'ArrowLeft':
+        this.player.seek(this.player.getTime() - SEEK_STEP);
+        break;
+      case 'ArrowRight':
+        this.player.seek(this.player.getTime() + SEEK_STEP);
+        break;
+      case 'Escape':
+        this.close();
+        break;
+    }
+  }
+
+  private togglePlayback(): void {
+    if (this.player.getIsPlaying()) {
+      this.player.pause();
+    } else {
+      this.player.play();
+    }
+    this.syncPanel();
+  }
+
+  private syncPanel(): void {
+    const replay = this.player.getReplay();
+    if (!replay) return;
+
+    const shotIndex = this.player.getCurrentShotIndex();
+    const shot = replay.shots[shotIndex];
+    const playerName = replay.players[shot.playerIndex]?.name ?? `Player ${shot.playerIndex + 1}`;
+    this.setText('replay-info', `Shot ${shotIndex + 1}/${replay.shots.length} · ${playerName} · power ${shot.power.toFixed(1)}`);
+    this.setText('replay-time', `${this.player.getTime().toFixed(1)}s / ${this.player.getDuration().toFixed(1)}s`);
+    this.setText('replay-play', this.player.getIsPlaying() ? '⏸ Pause' : '▶ Play');
+
+    (this.getInput('replay-scrub') as HTMLInputElement).value = String(this.player.getTime());
+  }
+
+  private exportReplay(): void {
+    if (!this.replay) return;
+
+    const json = JSON.stringify(this.replay);
+    const blob = new Blob([json], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `replay-level${this.replay.level.levelNumber}-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+
+    console.log(`💾 Exported replay ${link.download}`);
+  }
+
+  private getInput(id: string): HTMLInputElement | HTMLSelectElement {
+    return document.getElementById(id) as HTMLInputElement | HTMLSelectElement;
+  }
+
+  private setText(id: string, text: string): void {
+    const element = document.getElementById(id);
+    if (element) element.textContent = text;
+  }
+}
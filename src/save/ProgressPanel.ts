@@ -0,0 +1,101 @@
+import { LevelConfig } from '../levels/LevelData';
+import { Scorecard } from '../scoring/Scorecard';
+import { SaveStore } from './SaveStore';
+
+export interface ProgressPanelCallbacks {
+  onSelectLevel: (levelNumber: number) => void; // Start a round from an unlocked hole
+  onImport: () => void; // The whole save was replaced, settings included
+}
+
+/**
+ * Progress on the welcome screen: best score and lock state per hole, rounds played,
+ * and resetting, exporting and importing the save
+ */
+export class ProgressPanel {
+  private save: SaveStore;
+  private levels: LevelConfig[];
+  private callbacks: ProgressPanelCallbacks;
+  private list: HTMLElement;
+  private summary: HTMLElement;
+  private status: HTMLElement | null;
+
+  constructor(save: SaveStore, levels: LevelConfig[], callbacks: ProgressPanelCallbacks) {
+    this.save = save;
+    this.levels = levels;
+    this.callbacks = callbacks;
+    this.list = document.getElementById('level-progress')!;
+    this.summary = document.getElementById('progress-summary')!;
+    this.status = document.getElementById('progress-status');
+
+    document.getElementById('progress-export-btn')?.addEventListener('click', () => this.save.exportFile());
+    document.getElementById('progress-import-btn')?.addEventListener('click', () => {
+      (document.getElementById('progress-import-input') as HTMLInputElement).click();
+    });
+    document.getElementById('progress-import-input')?.addEventListener('change', () => this.importSave());
+    document.getElementById('progress-reset-btn')?.addEventListener('click', () => {
+      if (!window.confirm('Reset all progress and best scores? Settings and leaderboards are kept.')) return;
+      this.save.resetProgress();
+      this.setStatus('Progress reset');
+      this.render();
+    });
+
+    this.render();
+    this.setStatus(this.save.getLoadProblem() ?? '');
+  }
+
+  render(): void {
+    const data = this.save.getData();
+    const bestRound = data.bestRound === null ? '-' : String(data.bestRound);
+    this.summary.textContent = `Rounds played: ${data.roundsPlayed} · Best round: ${bestRound}`;
+
+    this.list.innerHTML = '';
+    this.levels.forEach((level, i) => {
+      // The first hole is always open, whatever the save says
+      const unlocked = i === 0 || this.save.isUnlocked(level.levelNumber);
+      const best = this.save.getBestStrokes(level.levelNumber);
+
+      const item = document.createElement('li');
+      const button = document.createElement('button');
+      button.className = 'level-progress-row';
+      button.disabled = !unlocked;
+      button.title = unlocked ? `Start a round from hole ${level.levelNumber}` : 'Finish the hole before it to unlock';
+
+      const name = document.createElement('span');
+      name.textContent = `${unlocked ? '' : '🔒 '}${level.levelNumber}. ${level.name}`;
+
+      const score = document.createElement('span');
+      score.textContent = best === null
+        ? `Par ${level.par} · Best -`
+        : `Par ${level.par} · Best ${best} (${Scorecard.formatToPar(best - level.par)})`;
+
+      button.appendChild(name);
+      button.appendChild(score);
+      button.addEventListener('click', () => this.callbacks.onSelectLevel(level.levelNumber));
+      item.appendChild(button);
+      this.list.appendChild(item);
+    });
+  }
+
+  private async importSave(): Promise<void> {
+    const input = document.getElementById('progress-import-input') as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Allow importing the same file twice
+    if (!file) return;
+
+    try {
+      await this.save.importFile(file);
+    } catch (error) {
+      console.error('❌ Failed to import save:', error);
+      this.setStatus(error instanceof Error ? error.message : 'Failed to import save');
+      return;
+    }
+
+    this.setStatus(`Imported ${file.name}`);
+    this.render();
+    this.callbacks.onImport();
+  }
+
+  private setStatus(message: string): void {
+    if (this.status) this.status.textContent = message;
+  }
+}
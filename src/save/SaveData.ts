@@ -0,0 +1,143 @@
+import { TRAJECTORY_PREVIEW } from '../aiming/Difficulty';
+import { DEFAULT_BINDINGS, InputBindings, parseBindings } from '../input/InputBindings';
+import { TurnOrder } from '../players/Player';
+import { DEFAULT_GAME_SETTINGS, GameSettings, validateGameSettings } from '../settings/GameSettings';
+import {
+  compareEntries,
+  createEmptyLeaderboards,
+  isLeaderboardEntry,
+  LeaderboardEntry,
+  Leaderboards,
+  MAX_LEADERBOARD_ENTRIES
+} from '../scoring/Leaderboard';
+import { isInteger, isOneOf, isRecord, JsonObject } from '../validation';
+
+/**
+ * Current version of the save format. Bump it together with a migration
+ * from the previous version whenever the schema changes.
+ */
+export const SAVE_FORMAT_VERSION = 3;
+
+export interface SaveSettings extends GameSettings {
+  turnOrder: TurnOrder;
+  bindings: InputBindings;
+}
+
+export interface SaveData {
+  version: number;
+  unlockedLevel: number; // Highest level number a round can start from
+  bestStrokes: Record<string, number>; // Fewest strokes per level number
+  bestRound: number | null; // Fewest strokes over the whole course
+  roundsPlayed: number;
+  settings: SaveSettings;
+  leaderboards: Leaderboards;
+}
+
+const TURN_ORDERS: TurnOrder[] = ['rotation', 'farthest'];
+
+export function createDefaultSave(): SaveData {
+  return {
+    version: SAVE_FORMAT_VERSION,
+    unlockedLevel: 1,
+    bestStrokes: {},
+    bestRound: null,
+    roundsPlayed: 0,
+    settings: {
+      ...DEFAULT_GAME_SETTINGS,
+      turnOrder: 'rotation',
+      bindings: structuredClone(DEFAULT_BINDINGS)
+    },
+    leaderboards: createEmptyLeaderboards()
+  };
+}
+
+/**
+ * Upgrades from each older version to the next, keyed by the version they upgrade from.
+ * Version 0 is what came before the save file: only the input bindings were stored.
+ */
+const MIGRATIONS: Record<number, (data: JsonObject) => JsonObject> = {
+  0: (data) => {
+    const save = createDefaultSave();
+    save.version = 1;
+    save.settings.bindings = parseBindings(data.bindings);
+    return { ...save };
+  },
+  1: (data) => ({ ...data, version: 2, leaderboards: createEmptyLeaderboards() }),
+  // Graphics, controls and sound settings start at their defaults
+  2: (data) => ({ ...data, version: 3, settings: { ...DEFAULT_GAME_SETTINGS, ...(isRecord(data.settings) ? data.settings : {}) } })
+};
+
+function fail(source: string, message: string): never {
+  throw new Error(`Invalid save data in ${source}: ${message}`);
+}
+
+function isCount(value: unknown): value is number {
+  return isInteger(value) && value >= 0;
+}
+
+// Entries come back ranked and trimmed, whatever order the file had them in
+function parseBoard(board: unknown, source: string, where: string): LeaderboardEntry[] {
+  if (!Array.isArray(board)) fail(source, `${where} must be an array`);
+  board.forEach((entry, i) => {
+    if (!isLeaderboardEntry(entry)) fail(source, `${where}[${i}] needs a name, strokes, time and date`);
+  });
+  return [...board].sort(compareEntries).slice(0, MAX_LEADERBOARD_ENTRIES);
+}
+
+function migrate(data: JsonObject, source: string): JsonObject {
+  const version = data.version;
+  if (!isInteger(version) || version < 0) fail(source, 'version must be a non-negative integer');
+  if (version > SAVE_FORMAT_VERSION) {
+    fail(source, `version ${version} was written by a newer game (expected up to ${SAVE_FORMAT_VERSION})`);
+  }
+
+  for (let from = version; from < SAVE_FORMAT_VERSION; from++) {
+    data = MIGRATIONS[from](data);
+    console.log(`💾 Migrated save data from version ${from} to ${data.version}`);
+  }
+  return data;
+}
+
+/**
+ * Bring raw JSON up to the current version and validate it against the save schema
+ */
+export function parseSaveData(raw: unknown, source: string = 'save'): SaveData {
+  if (!isRecord(raw)) fail(source, 'expected an object');
+  const data = migrate(structuredClone(raw), source);
+
+  if (!isInteger(data.unlockedLevel) || data.unlockedLevel < 1) {
+    fail(source, 'unlockedLevel must be a positive integer');
+  }
+  if (!isRecord(data.bestStrokes)) {
+    fail(source, 'bestStrokes must be an object of level number to strokes');
+  }
+  Object.entries(data.bestStrokes).forEach(([levelNumber, strokes]) => {
+    if (!/^\d+$/.test(levelNumber) || !isCount(strokes) || strokes === 0) {
+      fail(source, `bestStrokes.${levelNumber} must be a positive number of strokes`);
+    }
+  });
+  if (data.bestRound !== null && (!isCount(data.bestRound) || data.bestRound === 0)) {
+    fail(source, 'bestRound must be a positive number of strokes or null');
+  }
+  if (!isCount(data.roundsPlayed)) fail(source, 'roundsPlayed must be a non-negative integer');
+
+  const settings = data.settings;
+  if (!isRecord(settings)) fail(source, 'settings must be an object');
+  if (!isOneOf(Object.keys(TRAJECTORY_PREVIEW), settings.difficulty)) fail(source, `unknown difficulty "${settings.difficulty}"`);
+  if (!isOneOf(TURN_ORDERS, settings.turnOrder)) fail(source, `unknown turn order "${settings.turnOrder}"`);
+  settings.bindings = parseBindings(settings.bindings);
+  const settingsError = validateGameSettings(settings);
+  if (settingsError) fail(source, settingsError);
+
+  const leaderboards = data.leaderboards;
+  if (!isRecord(leaderboards)) fail(source, 'leaderboards must be an object');
+  const levels = leaderboards.levels;
+  if (!isRecord(levels)) fail(source, 'leaderboards.levels must be an object of level number to entries');
+  Object.keys(levels).forEach(levelNumber => {
+    if (!/^\d+$/.test(levelNumber)) fail(source, `leaderboards.levels.${levelNumber} is not a level number`);
+    levels[levelNumber] = parseBoard(levels[levelNumber], source, `leaderboards.levels.${levelNumber}`);
+  });
+  leaderboards.course = parseBoard(leaderboards.course, source, 'leaderboards.course');
+
+  return data as unknown as SaveData;
+}
@@ -0,0 +1,194 @@
+import { createDefaultSave, parseSaveData, SaveData, SaveSettings } from './SaveData';
+import { getRank, insertEntry, LeaderboardEntry, LeaderboardId } from '../scoring/Leaderboard';
+
+const STORAGE_KEY = 'minigolf-save';
+
+// Where input bindings were kept before there was a save file
+const LEGACY_BINDINGS_KEY = 'minigolf-input-bindings';
+
+/**
+ * Progress, best scores and settings kept in localStorage between visits.
+ * Every change is written straight away.
+ */
+export class SaveStore {
+  private data: SaveData;
+  private loadProblem: string | null = null; // Why the stored save couldn't be used, for the player
+  private writeBlocked: boolean = false; // An unreadable save is still in place and has no copy
+
+  constructor() {
+    this.data = this.load();
+  }
+
+  /**
+   * What went wrong reading the stored save this visit, or null if nothing did
+   */
+  getLoadProblem(): string | null {
+    return this.loadProblem;
+  }
+
+  getData(): SaveData {
+    return structuredClone(this.data);
+  }
+
+  getSettings(): SaveSettings {
+    return structuredClone(this.data.settings);
+  }
+
+  getBestStrokes(levelNumber: number): number | null {
+    return this.data.bestStrokes[levelNumber] ?? null;
+  }
+
+  isUnlocked(levelNumber: number): boolean {
+    return levelNumber <= this.data.unlockedLevel;
+  }
+
+  /**
+   * A hole was finished: keep the best score and open up the hole after it
+   */
+  recordHole(levelNumber: number, strokes: number, nextLevel: number | null): void {
+    const best = this.getBestStrokes(levelNumber);
+    if (best === null || strokes < best) {
+      this.data.bestStrokes[levelNumber] = strokes;
+      console.log(`💾 New best on level ${levelNumber}: ${strokes} strokes`);
+    }
+    if (nextLevel !== null) {
+      this.data.unlockedLevel = Math.max(this.data.unlockedLevel, nextLevel);
+    }
+    this.persist();
+  }
+
+  /**
+   * A round was finished; courseStrokes is only given for rounds over the whole course
+   */
+  recordRound(courseStrokes: number | null): void {
+    this.data.roundsPlayed++;
+    if (courseStrokes !== null && (this.data.bestRound === null || courseStrokes < this.data.bestRound)) {
+      this.data.bestRound = courseStrokes;
+      console.log(`💾 New best round: ${courseStrokes} strokes`);
+    }
+    this.persist();
+  }
+
+  updateSettings(settings: Partial<SaveSettings>): void {
+    this.data.settings = { ...this.data.settings, ...structuredClone(settings) };
+    this.persist();
+  }
+
+  getLeaderboard(board: LeaderboardId): LeaderboardEntry[] {
+    const entries = board === 'course' ? this.data.leaderboards.course : this.data.leaderboards.levels[board];
+    return structuredClone(entries ?? []);
+  }
+
+  /**
+   * Rank a score on a board. Returns its place (0 for the top), or null if it didn't make the board.
+   */
+  addLeaderboardEntry(board: LeaderboardId, entry: LeaderboardEntry): number | null {
+    const entries = this.getLeaderboard(board);
+    const rank = getRank(entries, entry);
+    if (rank === null) return null;
+
+    if (board === 'course') {
+      this.data.leaderboards.course = insertEntry(entries, entry);
+    } else {
+      this.data.leaderboards.levels[board] = insertEntry(entries, entry);
+    }
+    this.persist();
+    return rank;
+  }
+
+  /**
+   * Forget unlocked levels and best scores; settings and leaderboards are kept
+   */
+  resetProgress(): void {
+    this.data = { ...createDefaultSave(), settings: this.data.settings, leaderboards: this.data.leaderboards };
+    this.writeBlocked = false; // The player chose to start over
+    this.persist();
+    console.log('💾 Progress reset');
+  }
+
+  exportFile(): void {
+    this.download(this.data, 'minigolf-save');
+  }
+
+  /**
+   * Just the leaderboards, e.g. to collect everyone's scores for an office competition
+   */
+  exportLeaderboards(): void {
+    this.download({ exportedAt: new Date().toISOString(), ...this.data.leaderboards }, 'minigolf-leaderboards');
+  }
+
+  /**
+   * Replace everything with a previously exported save. Throws if the file isn't a valid save.
+   */
+  async importFile(file: File): Promise<void> {
+    this.data = parseSaveData(JSON.parse(await file.text()), file.name);
+    this.writeBlocked = false;
+    this.persist();
+    console.log(`📂 Imported save ${file.name}`);
+  }
+
+  private load(): SaveData {
+    let saved: string | null = null;
+    try {
+      saved = localStorage.getItem(STORAGE_KEY);
+      if (saved !== null) {
+        return parseSaveData(JSON.parse(saved), 'localStorage');
+      }
+
+      // Older builds only stored bindings; that counts as version 0 of the save
+      const legacyBindings = localStorage.getItem(LEGACY_BINDINGS_KEY);
+      if (legacyBindings !== null) {
+        const data = parseSaveData({ version: 0, bindings: JSON.parse(legacyBindings) }, LEGACY_BINDINGS_KEY);
+        this.data = data;
+        this.persist();
+        localStorage.removeItem(LEGACY_BINDINGS_KEY);
+        return data;
+      }
+    } catch (error) {
+      console.warn('⚠️ Ignoring unreadable save data:', error);
+      if (saved !== null) this.keepUnreadableSave(saved, error);
+    }
+
+    return createDefaultSave();
+  }
+
+  /**
+   * Move a save that couldn't be read (damaged, or from a newer version of the game) out of
+   * the way before anything is written over it. If it can't be copied, nothing is saved until
+   * the player resets or imports.
+   */
+  private keepUnreadableSave(saved: string, error: unknown): void {
+    const reason = error instanceof Error ? error.message : String(error);
+    const backupKey = `${STORAGE_KEY}-unreadable-${Date.now()}`;
+    try {
+      localStorage.setItem(backupKey, saved);
+      this.loadProblem = `Saved progress couldn't be read (${reason}). A copy was kept as "${backupKey}".`;
+      console.warn(`⚠️ Kept the unreadable save as ${backupKey}`);
+    } catch {
+      this.writeBlocked = true;
+      this.loadProblem = `Saved progress couldn't be read (${reason}). It is left untouched and nothing is saved until you reset or import.`;
+    }
+  }
+
+  private download(data: unknown, name: string): void {
+    const json = JSON.stringify(data, null, 2);
+    const blob = new Blob([json], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${name}-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+
+    console.log(`💾 Exported ${link.download}`);
+  }
+
+  private persist(): void {
+    if (this.writeBlocked) return;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.data));
+    } catch (error) {
+      // Private browsing or a full quota: keep playing, just without saving
+      console.warn('⚠️ Could not save progress:', error);
+    }
+  }
+}
@@ -0,0 +1,220 @@
+export interface HoleCompletionSummary {
+  strokes: number;
+  par: number;
+  roundToPar?: string; // Running round score, e.g. "+2"; omitted outside a round
+  isLastHole: boolean;
+}
+
+export interface HoleCompleteViewOptions {
+  onRetry: () => void;
+  onContinue: () => void; // Next hole, or the scorecard after the last one
+  onWatchReplay?: () => void; // Adds a replay button for the hole just finished
+  onViewLeaderboard?: () => void; // Adds a leaderboard button
+}
+
+/**
+ * Overlay after a solo hole: strokes against par, with retry and next hole
+ */
+export class HoleCompleteView {
+  private overlay: HTMLDivElement | null = null;
+
+  isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  show(summary: HoleCompletionSummary, options: HoleCompleteViewOptions): void {
+    this.hide();
+    const { strokes, par } = summary;
+
+    // Create overlay div
+    const overlay = document.createElement('div');
+    overlay.style.position = 'fixed';
+    overlay.style.top = '0';
+    overlay.style.left = '0';
+    overlay.style.width = '100%';
+    overlay.style.height = '100%';
+    overlay.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    overlay.style.display = 'flex';
+    overlay.style.justifyContent = 'center';
+    overlay.style.alignItems = 'center';
+    overlay.style.zIndex = '1000';
+    overlay.style.fontFamily = 'Arial, sans-serif';
+    
+    // Create message content
+    const messageDiv = document.createElement('div');
+    messageDiv.style.backgroundColor = 'white';
+    messageDiv.style.padding = '40px';
+    messageDiv.style.borderRadius = '20px';
+    messageDiv.style.textAlign = 'center';
+    messageDiv.style.boxShadow = '0 10px 30px rgba(0, 0, 0, 0.3)';
+    
+    const title = document.createElement('h1');
+    title.textContent = '🏌️ Hole Completed! ⛳';
+    title.style.color = '#2e7d32';
+    title.style.marginBottom = '20px';
+    title.style.fontSize = '2.5em';
+    
+    const strokeInfo = document.createElement('div');
+    strokeInfo.style.backgroundColor = '#f0f8ff';
+    strokeInfo.style.padding = '15px';
+    strokeInfo.style.borderRadius = '10px';
+    strokeInfo.style.marginBottom = '20px';
+    strokeInfo.style.border = '2px solid #4caf50';
+    
+    const strokeTitle = document.createElement('h2');
+    strokeTitle.textContent = `Strokes: ${strokes} (Par ${par})`;
+    strokeTitle.style.color = '#1976d2';
+    strokeTitle.style.margin = '0 0 10px 0';
+    strokeTitle.style.fontSize = '1.8em';
+    
+    const strokeText = document.createElement('p');
+    let performance = '';
+    if (strokes === 1) {
+      performance = '🔥 Hole-in-One! Amazing!';
+      strokeText.style.color = '#ff6f00';
+    } else if (strokes <= par - 2) {
+      performance = '🦅 Eagle! Fantastic!';
+      strokeText.style.color = '#388e3c';
+    } else if (strokes === par - 1) {
+      performance = '🐦 Birdie! Great shot!';
+      strokeText.style.color = '#689f38';
+    } else if (strokes === par) {
+      performance = '✅ Par! Nice work!';
+      strokeText.style.color = '#4caf50';
+    } else if (strokes === par + 1) {
+      performance = '⚡ Bogey. Keep practicing!';
+      strokeText.style.color = '#ff9800';
+    } else {
+      performance = '💪 Keep trying! You\'ll get it!';
+      strokeText.style.color = '#f44336';
+    }
+    
+    strokeText.textContent = performance;
+    strokeText.style.fontSize = '1.1em';
+    strokeText.style.margin = '0';
+    strokeText.style.fontWeight = 'bold';
+    
+    strokeInfo.appendChild(strokeTitle);
+    strokeInfo.appendChild(strokeText);
+
+    if (summary.roundToPar !== undefined) {
+      const roundText = document.createElement('p');
+      roundText.textContent = `Round: ${summary.roundToPar}`;
+      roundText.style.color = '#1976d2';
+      roundText.style.fontSize = '1.1em';
+      roundText.style.margin = '10px 0 0 0';
+      strokeInfo.appendChild(roundText);
+    }
+    
+    const subtitle = document.createElement('p');
+    subtitle.textContent = 'Great shot! The ball fell into the hole.';
+    subtitle.style.color = '#666';
+    subtitle.style.fontSize = '1.2em';
+    subtitle.style.marginBottom = '30px';
+    
+    // Create button container
+    const buttonContainer = document.createElement('div');
+    buttonContainer.style.display = 'flex';
+    buttonContainer.style.gap = '20px';
+    buttonContainer.style.justifyContent = 'center';
+    
+    // Retry button
+    const retryButton = document.createElement('button');
+    retryButton.textContent = 'Retry';
+    retryButton.style.backgroundColor = '#ff9800';
+    retryButton.style.color = 'white';
+    retryButton.style.border = 'none';
+    retryButton.style.padding = '15px 30px';
+    retryButton.style.fontSize = '1.1em';
+    retryButton.style.borderRadius = '8px';
+    retryButton.style.cursor = 'pointer';
+    retryButton.style.transition = 'background-color 0.3s';
+    
+    retryButton.onmouseover = () => retryButton.style.backgroundColor = '#f57c00';
+    retryButton.onmouseout = () => retryButton.style.backgroundColor = '#ff9800';
+    retryButton.onclick = () => {
+      this.hide();
+      options.onRetry();
+    };
+    
+    // Next Level button
+    const nextLevelButton = document.createElement('button');
+    nextLevelButton.textContent = summary.isLastHole ? 'View Scorecard' : 'Next Level';
+    nextLevelButton.style.backgroundColor = '#4caf50';
+    nextLevelButton.style.color = 'white';
+    nextLevelButton.style.border = 'none';
+    nextLevelButton.style.padding = '15px 30px';
+    nextLevelButton.style.fontSize = '1.1em';
+    nextLevelButton.style.borderRadius = '8px';
+    nextLevelButton.style.cursor = 'pointer';
+    nextLevelButton.style.transition = 'background-color 0.3s';
+    
+    nextLevelButton.onmouseover = () => nextLevelButton.style.backgroundColor = '#45a049';
+    nextLevelButton.onmouseout = () => nextLevelButton.style.backgroundColor = '#4caf50';
+    nextLevelButton.onclick = () => {
+      this.hide();
+      options.onContinue();
+    };
+    
+    buttonContainer.appendChild(retryButton);
+
+    // Replay button, only when someone is recording the shots
+    if (options.onWatchReplay) {
+      const replayButton = document.createElement('button');
+      replayButton.textContent = '🎬 Watch Replay';
+      replayButton.style.backgroundColor = '#1976d2';
+      replayButton.style.color = 'white';
+      replayButton.style.border = 'none';
+      replayButton.style.padding = '15px 30px';
+      replayButton.style.fontSize = '1.1em';
+      replayButton.style.borderRadius = '8px';
+      replayButton.style.cursor = 'pointer';
+      replayButton.style.transition = 'background-color 0.3s';
+
+      replayButton.onmouseover = () => replayButton.style.backgroundColor = '#1565c0';
+      replayButton.onmouseout = () => replayButton.style.backgroundColor = '#1976d2';
+      replayButton.onclick = () => {
+        this.hide();
+        options.onWatchReplay?.();
+      };
+      buttonContainer.appendChild(replayButton);
+    }
+
+    // Leaderboard button, only for holes that have a board
+    if (options.onViewLeaderboard) {
+      const leaderboardButton = document.createElement('button');
+      leaderboardButton.textContent = '🏅 Leaderboard';
+      leaderboardButton.style.backgroundColor = '#8e24aa';
+      leaderboardButton.style.color = 'white';
+      leaderboardButton.style.border = 'none';
+      leaderboardButton.style.padding = '15px 30px';
+      leaderboardButton.style.fontSize = '1.1em';
+      leaderboardButton.style.borderRadius = '8px';
+      leaderboardButton.style.cursor = 'pointer';
+      leaderboardButton.style.transition = 'background-color 0.3s';
+
+      leaderboardButton.onmouseover = () => leaderboardButton.style.backgroundColor = '#7b1fa2';
+      leaderboardButton.onmouseout = () => leaderboardButton.style.backgroundColor = '#8e24aa';
+      leaderboardButton.onclick = () => {
+        this.hide();
+        options.onViewLeaderboard?.();
+      };
+      buttonContainer.appendChild(leaderboardButton);
+    }
+
+    buttonContainer.appendChild(nextLevelButton);
+    
+    messageDiv.appendChild(title);
+    messageDiv.appendChild(strokeInfo);
+    messageDiv.appendChild(subtitle);
+    messageDiv.appendChild(buttonContainer);
+    overlay.appendChild(messageDiv);
+    document.body.appendChild(overlay);
+    this.overlay = overlay;
+  }
+
+  hide(): void {
+    this.overlay?.remove();
+    this.overlay = null;
+  }
+}
@@ -0,0 +1,61 @@
+import { isInteger, isNumber, isRecord } from '../validation';
+
+export interface LeaderboardEntry {
+  name: string;
+  strokes: number;
+  time: number; // Seconds of course time, breaks ties on strokes
+  date: string; // ISO timestamp of when the score was entered
+}
+
+// Per level number, plus one for whole rounds over the course
+export interface Leaderboards {
+  levels: Record<string, LeaderboardEntry[]>;
+  course: LeaderboardEntry[];
+}
+
+// A board is either a level number or the whole course
+export type LeaderboardId = number | 'course';
+
+export const MAX_LEADERBOARD_ENTRIES = 10;
+
+export const MAX_LEADERBOARD_NAME_LENGTH = 16;
+
+export function createEmptyLeaderboards(): Leaderboards {
+  return { levels: {}, course: [] };
+}
+
+/**
+ * Fewer strokes first, then the faster time, then whoever got there first
+ */
+export function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  return a.strokes - b.strokes || a.time - b.time || a.date.localeCompare(b.date);
+}
+
+/**
+ * Where a score would be ranked (0 for the top), or null if it wouldn't make the board
+ */
+export function getRank(entries: LeaderboardEntry[], entry: LeaderboardEntry): number | null {
+  const rank = entries.filter(other => compareEntries(other, entry) <= 0).length;
+  return rank < MAX_LEADERBOARD_ENTRIES ? rank : null;
+}
+
+/**
+ * The board with the entry ranked in, cut back down to its maximum length
+ */
+export function insertEntry(entries: LeaderboardEntry[], entry: LeaderboardEntry): LeaderboardEntry[] {
+  return [...entries, entry].sort(compareEntries).slice(0, MAX_LEADERBOARD_ENTRIES);
+}
+
+export function formatTime(seconds: number): string {
+  const tenths = Math.round(seconds * 10);
+  const rest = ((tenths % 600) / 10).toFixed(1).padStart(4, '0');
+  return `${Math.floor(tenths / 600)}:${rest}`;
+}
+
+export function isLeaderboardEntry(value: unknown): value is LeaderboardEntry {
+  return isRecord(value) &&
+    typeof value.name === 'string' && value.name.length > 0 && value.name.length <= MAX_LEADERBOARD_NAME_LENGTH &&
+    isInteger(value.strokes) && value.strokes > 0 &&
+    isNumber(value.time) && value.time >= 0 &&
+    typeof value.date === 'string';
+}
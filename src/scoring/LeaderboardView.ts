@@ -0,0 +1,275 @@
+import { LevelConfig } from '../levels/LevelData';
+import { SaveStore } from '../save/SaveStore';
+import { formatTime, getRank, LeaderboardEntry, LeaderboardId, MAX_LEADERBOARD_NAME_LENGTH } from './Leaderboard';
+
+/**
+ * A finished hole or round that can still be put on the board
+ */
+export interface PendingScore {
+  playerIndex: number;
+  name: string; // Suggested name; the player can change it
+  strokes: number;
+  time: number;
+}
+
+export interface LeaderboardViewOptions {
+  board: LeaderboardId;
+  pending?: PendingScore[]; // Scores for options.board, one per player who can enter one
+  onEnter?: (score: PendingScore) => void; // A pending score was put on the board
+  onClose?: () => void;
+}
+
+/**
+ * Overlay with the top scores on a hole or on the whole course, with name entry
+ * for scores that made the board
+ */
+export class LeaderboardView {
+  private save: SaveStore;
+  private levels: LevelConfig[];
+  private overlay: HTMLDivElement | null = null;
+  private options: LeaderboardViewOptions | null = null;
+  private board: LeaderboardId = 'course';
+  private highlighted: LeaderboardEntry | null = null;
+
+  constructor(save: SaveStore, levels: LevelConfig[]) {
+    this.save = save;
+    this.levels = levels;
+  }
+
+  isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  show(options: LeaderboardViewOptions): void {
+    this.options = { ...options, pending: [...(options.pending ?? [])] };
+    this.board = options.board;
+    this.highlighted = null;
+    this.render();
+  }
+
+  hide(): void {
+    this.overlay?.remove();
+    this.overlay = null;
+  }
+
+  private close(): void {
+    const onClose = this.options?.onClose;
+    this.hide();
+    this.options = null;
+    onClose?.();
+  }
+
+  private render(): void {
+    this.hide();
+
+    const overlay = document.createElement('div');
+    overlay.style.position = 'fixed';
+    overlay.style.top = '0';
+    overlay.style.left = '0';
+    overlay.style.width = '100%';
+    overlay.style.height = '100%';
+    overlay.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    overlay.style.display = 'flex';
+    overlay.style.justifyContent = 'center';
+    overlay.style.alignItems = 'center';
+    overlay.style.zIndex = '1000';
+    overlay.style.fontFamily = 'Arial, sans-serif';
+
+    const card = document.createElement('div');
+    card.style.backgroundColor = 'white';
+    card.style.padding = '40px';
+    card.style.borderRadius = '20px';
+    card.style.textAlign = 'center';
+    card.style.boxShadow = '0 10px 30px rgba(0, 0, 0, 0.3)';
+    card.style.maxHeight = '90vh';
+    card.style.overflowY = 'auto';
+
+    const title = document.createElement('h1');
+    title.textContent = '🏅 Leaderboard';
+    title.style.color = '#2e7d32';
+    title.style.marginBottom = '20px';
+    title.style.fontSize = '2.5em';
+
+    card.appendChild(title);
+    card.appendChild(this.createBoardSelect());
+    card.appendChild(this.createTable(this.save.getLeaderboard(this.board)));
+
+    const entryForm = this.createEntryForm();
+    if (entryForm) card.appendChild(entryForm);
+
+    const buttons = document.createElement('div');
+    buttons.style.display = 'flex';
+    buttons.style.gap = '20px';
+    buttons.style.justifyContent = 'center';
+    buttons.style.marginTop = '30px';
+    buttons.appendChild(this.createButton('Export JSON', '#1976d2', () => this.save.exportLeaderboards()));
+    buttons.appendChild(this.createButton('Close', '#4caf50', () => this.close()));
+    card.appendChild(buttons);
+
+    overlay.appendChild(card);
+    document.body.appendChild(overlay);
+    this.overlay = overlay;
+  }
+
+  private createBoardSelect(): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.style.fontSize = '1.1em';
+    select.style.padding = '6px';
+    select.style.marginBottom = '20px';
+
+    const addOption = (value: string, label: string) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      select.appendChild(option);
+    };
+    addOption('course', 'Whole course');
+    this.levels.forEach(level => addOption(String(level.levelNumber), `Hole ${level.levelNumber}: ${level.name}`));
+
+    select.value = String(this.board);
+    select.addEventListener('change', () => {
+      this.board = select.value === 'course' ? 'course' : parseInt(select.value, 10);
+      this.render();
+    });
+    return select;
+  }
+
+  private createTable(entries: LeaderboardEntry[]): HTMLElement {
+    if (entries.length === 0) {
+      const empty = document.createElement('p');
+      empty.textContent = 'No scores yet. Be the first!';
+      empty.style.color = '#666';
+      return empty;
+    }
+
+    const table = document.createElement('table');
+    table.style.borderCollapse = 'collapse';
+    table.style.margin = '0 auto';
+    table.style.fontSize = '1.1em';
+    table.style.color = '#333';
+
+    const addRow = (cells: string[], isHeader: boolean = false): HTMLTableRowElement => {
+      const row = table.insertRow();
+      cells.forEach(text => {
+        const cell = document.createElement(isHeader ? 'th' : 'td');
+        cell.textContent = text;
+        cell.style.padding = '8px 16px';
+        cell.style.borderBottom = '1px solid #ddd';
+        row.appendChild(cell);
+      });
+      if (isHeader) {
+        row.style.backgroundColor = '#4caf50';
+        row.style.color = 'white';
+      }
+      return row;
+    };
+
+    addRow(['#', 'Name', 'Strokes', 'Time', 'Date'], true);
+    entries.forEach((entry, i) => {
+      const row = addRow([
+        String(i + 1),
+        entry.name,
+        String(entry.strokes),
+        formatTime(entry.time),
+        new Date(entry.date).toLocaleDateString()
+      ]);
+      if (this.highlighted && entry.date === this.highlighted.date && entry.name === this.highlighted.name) {
+        row.style.backgroundColor = '#fff59d';
+        row.style.fontWeight = 'bold';
+      }
+    });
+
+    return table;
+  }
+
+  /**
+   * A name field per pending score that would make the board shown; null when there are none
+   */
+  private createEntryForm(): HTMLElement | null {
+    const options = this.options;
+    if (!options || this.board !== options.board) return null;
+
+    const entries = this.save.getLeaderboard(this.board);
+    const now = new Date().toISOString();
+    const qualifying = (options.pending ?? []).filter(score =>
+      getRank(entries, { name: score.name, strokes: score.strokes, time: score.time, date: now }) !== null
+    );
+    if (qualifying.length === 0) return null;
+
+    const form = document.createElement('div');
+    form.style.marginTop = '20px';
+    form.style.padding = '15px';
+    form.style.backgroundColor = '#f0f8ff';
+    form.style.border = '2px solid #4caf50';
+    form.style.borderRadius = '10px';
+
+    const heading = document.createElement('p');
+    heading.textContent = 'You made the board! Enter your name:';
+    heading.style.color = '#1976d2';
+    heading.style.fontWeight = 'bold';
+    heading.style.margin = '0 0 10px 0';
+    form.appendChild(heading);
+
+    qualifying.forEach(score => {
+      const row = document.createElement('div');
+      row.style.display = 'flex';
+      row.style.gap = '10px';
+      row.style.justifyContent = 'center';
+      row.style.alignItems = 'center';
+      row.style.margin = '8px 0';
+
+      const nameInput = document.createElement('input');
+      nameInput.type = 'text';
+      nameInput.value = score.name;
+      nameInput.maxLength = MAX_LEADERBOARD_NAME_LENGTH;
+      nameInput.style.padding = '6px';
+      nameInput.style.fontSize = '1em';
+
+      const result = document.createElement('span');
+      result.textContent = `${score.strokes} strokes · ${formatTime(score.time)}`;
+      result.style.color = '#333';
+
+      const submit = () => this.enterScore(score, nameInput.value.trim() || score.name);
+      nameInput.addEventListener('keydown', (event) => {
+        event.stopPropagation(); // Typing a name shouldn't drive the game
+        if (event.key === 'Enter') submit();
+      });
+
+      row.appendChild(nameInput);
+      row.appendChild(result);
+      row.appendChild(this.createButton('Save', '#ff9800', submit));
+      form.appendChild(row);
+    });
+
+    return form;
+  }
+
+  private enterScore(score: PendingScore, name: string): void {
+    if (!this.options) return;
+
+    const entry: LeaderboardEntry = { name, strokes: score.strokes, time: score.time, date: new Date().toISOString() };
+    const rank = this.save.addLeaderboardEntry(this.board, entry);
+    if (rank !== null) {
+      this.highlighted = entry;
+      console.log(`🏅 ${name} is #${rank + 1} on the ${this.board === 'course' ? 'course' : `hole ${this.board}`} leaderboard`);
+    }
+
+    this.options.pending = this.options.pending?.filter(other => other !== score);
+    this.options.onEnter?.(score);
+    this.render();
+  }
+
+  private createButton(label: string, color: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.style.backgroundColor = color;
+    button.style.color = 'white';
+    button.style.border = 'none';
+    button.style.padding = '10px 24px';
+    button.style.fontSize = '1.1em';
+    button.style.borderRadius = '8px';
+    button.style.cursor = 'pointer';
+    button.onclick = onClick;
+    return button;
+  }
+}
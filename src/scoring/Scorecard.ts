@@ -0,0 +1,148 @@
+import { LevelConfig } from '../levels/LevelData';
+
+export interface HoleScore {
+  levelNumber: number;
+  name: string;
+  par: number;
+  strokes: number[];    // Indexed by player
+  completed: boolean[]; // Indexed by player
+  times: number[];      // Seconds of course time each player took to hole out, indexed by player
+}
+
+/**
+ * Strokes per hole and per player for one round over the course.
+ * This is the single source of truth for scoring; everything else reads from it.
+ */
+export class Scorecard {
+  private holes: HoleScore[] = [];
+  private playerNames: string[] = ['Player 1'];
+
+  /**
+   * Start a fresh card for the given holes, in playing order
+   */
+  startRound(levels: LevelConfig[], playerNames: string[] = this.playerNames): void {
+    this.playerNames = [...playerNames];
+    this.holes = levels.map(level => ({
+      levelNumber: level.levelNumber,
+      name: level.name,
+      par: level.par,
+      strokes: this.playerNames.map(() => 0),
+      completed: this.playerNames.map(() => false),
+      times: this.playerNames.map(() => 0)
+    }));
+    console.log(`📋 New round started over ${this.holes.length} holes for ${this.playerNames.join(', ')}`);
+  }
+
+  getPlayerNames(): string[] {
+    return [...this.playerNames];
+  }
+
+  hasHole(levelNumber: number): boolean {
+    return this.findHole(levelNumber) !== undefined;
+  }
+
+  recordStroke(levelNumber: number, playerIndex: number = 0, count: number = 1): void {
+    const hole = this.findHole(levelNumber);
+    if (!hole || hole.completed[playerIndex]) return;
+
+    hole.strokes[playerIndex] += count;
+  }
+
+  /**
+   * Wipe a hole for every player so it can be replayed from the tee
+   */
+  resetHole(levelNumber: number): void {
+    const hole = this.findHole(levelNumber);
+    if (!hole) return;
+
+    hole.strokes.fill(0);
+    hole.completed.fill(false);
+    hole.times.fill(0);
+  }
+
+  /**
+   * Mark a player as holed out. Returns the hole's scores so far.
+   */
+  completeHole(levelNumber: number, playerIndex: number = 0, time: number = 0): HoleScore | null {
+    const hole = this.findHole(levelNumber);
+    if (!hole) return null;
+
+    hole.completed[playerIndex] = true;
+    hole.times[playerIndex] = time;
+    return this.copyHole(hole);
+  }
+
+  isHoleComplete(levelNumber: number): boolean {
+    const hole = this.findHole(levelNumber);
+    return hole !== undefined && hole.completed.every(done => done);
+  }
+
+  /**
+   * Whether anyone has finished the hole this round
+   */
+  hasHoledOut(levelNumber: number): boolean {
+    const hole = this.findHole(levelNumber);
+    return hole !== undefined && hole.completed.some(done => done);
+  }
+
+  getHole(levelNumber: number): HoleScore | null {
+    const hole = this.findHole(levelNumber);
+    return hole ? this.copyHole(hole) : null;
+  }
+
+  getHoles(): HoleScore[] {
+    return this.holes.map(hole => this.copyHole(hole));
+  }
+
+  getTotalStrokes(playerIndex: number = 0): number {
+    return this.holes.reduce((total, hole) => total + hole.strokes[playerIndex], 0);
+  }
+
+  getTotalTime(playerIndex: number = 0): number {
+    return this.holes.reduce((total, hole) => total + hole.times[playerIndex], 0);
+  }
+
+  /**
+   * Strokes by everyone, used for the overall round counter
+   */
+  getAllPlayersStrokes(): number {
+    return this.playerNames.reduce((total, _, playerIndex) => total + this.getTotalStrokes(playerIndex), 0);
+  }
+
+  getTotalPar(): number {
+    return this.holes.reduce((total, hole) => total + hole.par, 0);
+  }
+
+  /**
+   * Running score relative to par, counting the player's finished holes only
+   */
+  getScoreToPar(playerIndex: number = 0): number {
+    return this.holes
+      .filter(hole => hole.completed[playerIndex])
+      .reduce((total, hole) => total + hole.strokes[playerIndex] - hole.par, 0);
+  }
+
+  getCompletedHoleCount(playerIndex: number = 0): number {
+    return this.holes.filter(hole => hole.completed[playerIndex]).length;
+  }
+
+  isRoundComplete(): boolean {
+    return this.holes.length > 0 && this.holes.every(hole => hole.completed.every(done => done));
+  }
+
+  /**
+   * Golf-style score notation: E for even, +2 over, -1 under
+   */
+  static formatToPar(scoreToPar: number): string {
+    if (scoreToPar === 0) return 'E';
+    return scoreToPar > 0 ? `+${scoreToPar}` : `${scoreToPar}`;
+  }
+
+  private findHole(levelNumber: number): HoleScore | undefined {
+    return this.holes.find(hole => hole.levelNumber === levelNumber);
+  }
+
+  private copyHole(hole: HoleScore): HoleScore {
+    return { ...hole, strokes: [...hole.strokes], completed: [...hole.completed], times: [...hole.times] };
+  }
+}
@@ -0,0 +1,183 @@
+import { Scorecard } from './Scorecard';
+
+export interface ScorecardViewOptions {
+  title: string;
+  buttonLabel: string;
+  onContinue?: () => void; // Without it the card just waits, e.g. for the host of an online round
+  onWatchReplay?: () => void; // Adds a replay button for the hole just finished
+  onViewLeaderboard?: () => void; // Adds a leaderboard button
+}
+
+/**
+ * Overlay with the full scorecard table, shown between holes and at the end of the round
+ */
+export class ScorecardView {
+  private overlay: HTMLDivElement | null = null;
+
+  show(scorecard: Scorecard, options: ScorecardViewOptions): void {
+    this.hide();
+
+    // Create overlay div
+    const overlay = document.createElement('div');
+    overlay.style.position = 'fixed';
+    overlay.style.top = '0';
+    overlay.style.left = '0';
+    overlay.style.width = '100%';
+    overlay.style.height = '100%';
+    overlay.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    overlay.style.display = 'flex';
+    overlay.style.justifyContent = 'center';
+    overlay.style.alignItems = 'center';
+    overlay.style.zIndex = '1000';
+    overlay.style.fontFamily = 'Arial, sans-serif';
+
+    const card = document.createElement('div');
+    card.style.backgroundColor = 'white';
+    card.style.padding = '40px';
+    card.style.borderRadius = '20px';
+    card.style.textAlign = 'center';
+    card.style.boxShadow = '0 10px 30px rgba(0, 0, 0, 0.3)';
+
+    const title = document.createElement('h1');
+    title.textContent = options.title;
+    title.style.color = '#2e7d32';
+    title.style.marginBottom = '20px';
+    title.style.fontSize = '2.5em';
+
+    const table = this.createTable(scorecard);
+
+    const continueButton = document.createElement('button');
+    continueButton.textContent = options.buttonLabel;
+    continueButton.style.backgroundColor = '#4caf50';
+    continueButton.style.color = 'white';
+    continueButton.style.border = 'none';
+    continueButton.style.padding = '15px 30px';
+    continueButton.style.fontSize = '1.1em';
+    continueButton.style.borderRadius = '8px';
+    continueButton.style.cursor = 'pointer';
+    continueButton.style.marginTop = '30px';
+    continueButton.onmouseover = () => continueButton.style.backgroundColor = '#45a049';
+    continueButton.onmouseout = () => continueButton.style.backgroundColor = '#4caf50';
+    continueButton.onclick = () => {
+      this.hide();
+      options.onContinue?.();
+    };
+
+    card.appendChild(title);
+    card.appendChild(table);
+
+    if (options.onWatchReplay) {
+      const replayButton = document.createElement('button');
+      replayButton.textContent = '🎬 Watch Replay';
+      replayButton.style.backgroundColor = '#1976d2';
+      replayButton.style.color = 'white';
+      replayButton.style.border = 'none';
+      replayButton.style.padding = '15px 30px';
+      replayButton.style.fontSize = '1.1em';
+      replayButton.style.borderRadius = '8px';
+      replayButton.style.cursor = 'pointer';
+      replayButton.style.marginTop = '30px';
+      replayButton.style.marginRight = '20px';
+      replayButton.onmouseover = () => replayButton.style.backgroundColor = '#1565c0';
+      replayButton.onmouseout = () => replayButton.style.backgroundColor = '#1976d2';
+      replayButton.onclick = () => {
+        this.hide();
+        options.onWatchReplay?.();
+      };
+      card.appendChild(replayButton);
+    }
+
+    if (options.onViewLeaderboard) {
+      const leaderboardButton = document.createElement('button');
+      leaderboardButton.textContent = '🏅 Leaderboard';
+      leaderboardButton.style.backgroundColor = '#8e24aa';
+      leaderboardButton.style.color = 'white';
+      leaderboardButton.style.border = 'none';
+      leaderboardButton.style.padding = '15px 30px';
+      leaderboardButton.style.fontSize = '1.1em';
+      leaderboardButton.style.borderRadius = '8px';
+      leaderboardButton.style.cursor = 'pointer';
+      leaderboardButton.style.marginTop = '30px';
+      leaderboardButton.style.marginRight = '20px';
+      leaderboardButton.onmouseover = () => leaderboardButton.style.backgroundColor = '#7b1fa2';
+      leaderboardButton.onmouseout = () => leaderboardButton.style.backgroundColor = '#8e24aa';
+      leaderboardButton.onclick = () => {
+        this.hide();
+        options.onViewLeaderboard?.();
+      };
+      card.appendChild(leaderboardButton);
+    }
+
+    if (options.onContinue) {
+      card.appendChild(continueButton);
+    } else {
+      const waiting = document.createElement('p');
+      waiting.textContent = 'Waiting for the host to continue...';
+      waiting.style.color = '#666';
+      waiting.style.marginTop = '30px';
+      card.appendChild(waiting);
+    }
+    overlay.appendChild(card);
+    document.body.appendChild(overlay);
+    this.overlay = overlay;
+  }
+
+  hide(): void {
+    this.overlay?.remove();
+    this.overlay = null;
+  }
+
+  private createTable(scorecard: Scorecard): HTMLTableElement {
+    const table = document.createElement('table');
+    table.style.borderCollapse = 'collapse';
+    table.style.margin = '0 auto';
+    table.style.fontSize = '1.1em';
+    table.style.color = '#333';
+
+    const addRow = (cells: string[], isHeader: boolean = false): HTMLTableRowElement => {
+      const row = table.insertRow();
+      cells.forEach(text => {
+        const cell = document.createElement(isHeader ? 'th' : 'td');
+        cell.textContent = text;
+        cell.style.padding = '8px 16px';
+        cell.style.borderBottom = '1px solid #ddd';
+        row.appendChild(cell);
+      });
+      if (isHeader) {
+        row.style.backgroundColor = '#4caf50';
+        row.style.color = 'white';
+      }
+      return row;
+    };
+
+    const playerNames = scorecard.getPlayerNames();
+    addRow(['Hole', 'Name', 'Par', ...playerNames], true);
+
+    scorecard.getHoles().forEach(hole => {
+      addRow([
+        String(hole.levelNumber),
+        hole.name,
+        String(hole.par),
+        ...playerNames.map((_, i) => hole.completed[i] ? String(hole.strokes[i]) : '-')
+      ]);
+    });
+
+    const totalRow = addRow([
+      'Total',
+      '',
+      String(scorecard.getTotalPar()),
+      ...playerNames.map((_, i) => String(scorecard.getTotalStrokes(i)))
+    ]);
+    totalRow.style.fontWeight = 'bold';
+
+    const toParRow = addRow([
+      '+/-',
+      '',
+      '',
+      ...playerNames.map((_, i) => Scorecard.formatToPar(scorecard.getScoreToPar(i)))
+    ]);
+    toParRow.style.fontWeight = 'bold';
+
+    return table;
+  }
+}
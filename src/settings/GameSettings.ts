@@ -0,0 +1,77 @@
+import { DEFAULT_DIFFICULTY, Difficulty } from '../aiming/Difficulty';
+import { isOneOf, isRecord } from '../validation';
+
+export type GraphicsQuality = 'low' | 'medium' | 'high';
+
+export interface GraphicsPreset {
+  label: string;
+  maxPixelRatio: number; // Cap on the screen's device pixel ratio
+  shadowMapSize: number;
+  softShadows: boolean;
+  antialias: boolean; // Only read when the renderer is created
+}
+
+export const GRAPHICS_PRESETS: Record<GraphicsQuality, GraphicsPreset> = {
+  low: { label: 'Low', maxPixelRatio: 1, shadowMapSize: 512, softShadows: false, antialias: false },
+  medium: { label: 'Medium', maxPixelRatio: 1.5, shadowMapSize: 1024, softShadows: false, antialias: true },
+  high: { label: 'High', maxPixelRatio: 2, shadowMapSize: 2048, softShadows: true, antialias: true }
+};
+
+/**
+ * Options from the settings menu. Aim assist is the difficulty, which decides how much
+ * of the shot the trajectory preview shows.
+ */
+export interface GameSettings {
+  graphics: GraphicsQuality;
+  shadows: boolean;
+  dragSensitivity: number; // Multiplies the power a drag of the same length gives
+  invertDrag: boolean; // Drag towards where the ball should go instead of pulling back
+  cameraSpeed: number; // Multiplies orbit speed and how fast the scripted cameras catch up
+  difficulty: Difficulty;
+  masterVolume: number; // 0..1
+  effectsVolume: number;
+  ambienceVolume: number;
+  muted: boolean;
+}
+
+export const DRAG_SENSITIVITY_RANGE = { min: 0.5, max: 2 };
+export const CAMERA_SPEED_RANGE = { min: 0.25, max: 3 };
+export const VOLUME_RANGE = { min: 0, max: 1 };
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  graphics: 'high',
+  shadows: true,
+  dragSensitivity: 1,
+  invertDrag: false,
+  cameraSpeed: 1,
+  difficulty: DEFAULT_DIFFICULTY,
+  masterVolume: 0.8,
+  effectsVolume: 1,
+  ambienceVolume: 0.5,
+  muted: false
+};
+
+function isInRange(value: unknown, range: { min: number; max: number }): value is number {
+  return typeof value === 'number' && value >= range.min && value <= range.max;
+}
+
+/**
+ * Why settings from a save file can't be used, or null if they're fine
+ */
+export function validateGameSettings(settings: unknown): string | null {
+  if (!isRecord(settings)) return 'settings must be an object';
+  if (!isOneOf(Object.keys(GRAPHICS_PRESETS), settings.graphics)) return `unknown graphics quality "${settings.graphics}"`;
+  if (typeof settings.shadows !== 'boolean') return 'shadows must be true or false';
+  if (!isInRange(settings.dragSensitivity, DRAG_SENSITIVITY_RANGE)) {
+    return `dragSensitivity must be between ${DRAG_SENSITIVITY_RANGE.min} and ${DRAG_SENSITIVITY_RANGE.max}`;
+  }
+  if (typeof settings.invertDrag !== 'boolean') return 'invertDrag must be true or false';
+  if (!isInRange(settings.cameraSpeed, CAMERA_SPEED_RANGE)) {
+    return `cameraSpeed must be between ${CAMERA_SPEED_RANGE.min} and ${CAMERA_SPEED_RANGE.max}`;
+  }
+  for (const volume of ['masterVolume', 'effectsVolume', 'ambienceVolume']) {
+    if (!isInRange(settings[volume], VOLUME_RANGE)) return `${volume} must be between 0 and 1`;
+  }
+  if (typeof settings.muted !== 'boolean') return 'muted must be true or false';
+  return null;
+}
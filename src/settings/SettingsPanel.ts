@@ -0,0 +1,155 @@
+import { Difficulty } from '../aiming/Difficulty';
+import {
+  CAMERA_SPEED_RANGE,
+  DEFAULT_GAME_SETTINGS,
+  DRAG_SENSITIVITY_RANGE,
+  GameSettings,
+  GRAPHICS_PRESETS,
+  GraphicsQuality,
+  VOLUME_RANGE
+} from './GameSettings';
+
+const AIM_ASSIST_LABELS: Record<Difficulty, string> = {
+  easy: 'Full path',
+  normal: 'Up to the first bounce',
+  hard: 'Off'
+};
+
+/**
+ * Settings menu, opened from the welcome screen or during play. Every change is passed
+ * to onChange straight away so it can be applied live; keeping it is up to onChange too.
+ */
+export class SettingsPanel {
+  private panel: HTMLElement;
+  private graphics: HTMLSelectElement;
+  private shadows: HTMLInputElement;
+  private dragSensitivity: HTMLInputElement;
+  private invertDrag: HTMLInputElement;
+  private cameraSpeed: HTMLInputElement;
+  private aimAssist: HTMLSelectElement;
+  private masterVolume: HTMLInputElement;
+  private effectsVolume: HTMLInputElement;
+  private ambienceVolume: HTMLInputElement;
+  private muted: HTMLInputElement;
+  private status: HTMLElement | null;
+  private settings: GameSettings;
+  private onChange: (settings: GameSettings) => void;
+  private onClose: (() => void) | null = null;
+
+  // Antialiasing is fixed when the renderer is created
+  private startupAntialias: boolean;
+
+  constructor(settings: GameSettings, onChange: (settings: GameSettings) => void) {
+    this.settings = { ...settings };
+    this.onChange = onChange;
+    this.startupAntialias = GRAPHICS_PRESETS[settings.graphics].antialias;
+
+    this.panel = document.getElementById('settings-panel')!;
+    this.graphics = document.getElementById('settings-graphics') as HTMLSelectElement;
+    this.shadows = document.getElementById('settings-shadows') as HTMLInputElement;
+    this.dragSensitivity = document.getElementById('settings-drag-sensitivity') as HTMLInputElement;
+    this.invertDrag = document.getElementById('settings-invert-drag') as HTMLInputElement;
+    this.cameraSpeed = document.getElementById('settings-camera-speed') as HTMLInputElement;
+    this.aimAssist = document.getElementById('settings-aim-assist') as HTMLSelectElement;
+    this.masterVolume = document.getElementById('settings-master-volume') as HTMLInputElement;
+    this.effectsVolume = document.getElementById('settings-effects-volume') as HTMLInputElement;
+    this.ambienceVolume = document.getElementById('settings-ambience-volume') as HTMLInputElement;
+    this.muted = document.getElementById('settings-muted') as HTMLInputElement;
+    this.status = document.getElementById('settings-status');
+
+    (Object.keys(GRAPHICS_PRESETS) as GraphicsQuality[]).forEach(quality => {
+      this.graphics.appendChild(new Option(GRAPHICS_PRESETS[quality].label, quality));
+    });
+    (Object.keys(AIM_ASSIST_LABELS) as Difficulty[]).forEach(difficulty => {
+      this.aimAssist.appendChild(new Option(AIM_ASSIST_LABELS[difficulty], difficulty));
+    });
+    this.setRange(this.dragSensitivity, DRAG_SENSITIVITY_RANGE);
+    this.setRange(this.cameraSpeed, CAMERA_SPEED_RANGE);
+    [this.masterVolume, this.effectsVolume, this.ambienceVolume].forEach(input => this.setRange(input, VOLUME_RANGE));
+
+    this.graphics.addEventListener('change', () => this.apply({ graphics: this.graphics.value as GraphicsQuality }));
+    this.shadows.addEventListener('change', () => this.apply({ shadows: this.shadows.checked }));
+    this.dragSensitivity.addEventListener('input', () => this.apply({ dragSensitivity: Number(this.dragSensitivity.value) }));
+    this.invertDrag.addEventListener('change', () => this.apply({ invertDrag: this.invertDrag.checked }));
+    this.cameraSpeed.addEventListener('input', () => this.apply({ cameraSpeed: Number(this.cameraSpeed.value) }));
+    this.aimAssist.addEventListener('change', () => this.apply({ difficulty: this.aimAssist.value as Difficulty }));
+    this.masterVolume.addEventListener('input', () => this.apply({ masterVolume: Number(this.masterVolume.value) }));
+    this.effectsVolume.addEventListener('input', () => this.apply({ effectsVolume: Number(this.effectsVolume.value) }));
+    this.ambienceVolume.addEventListener('input', () => this.apply({ ambienceVolume: Number(this.ambienceVolume.value) }));
+    this.muted.addEventListener('change', () => this.apply({ muted: this.muted.checked }));
+
+    document.getElementById('settings-reset-btn')?.addEventListener('click', () => this.apply(DEFAULT_GAME_SETTINGS));
+    document.getElementById('settings-done-btn')?.addEventListener('click', () => this.close());
+
+    // Arrow keys on a slider shouldn't swing the aim behind the menu
+    this.panel.addEventListener('keydown', (event) => event.stopPropagation());
+
+    this.render();
+  }
+
+  isOpen(): boolean {
+    return !this.panel.classList.contains('hidden');
+  }
+
+  open(onClose?: () => void): void {
+    this.onClose = onClose ?? null;
+    this.render();
+    this.panel.classList.remove('hidden');
+  }
+
+  close(): void {
+    if (!this.isOpen()) return;
+    this.panel.classList.add('hidden');
+
+    const onClose = this.onClose;
+    this.onClose = null;
+    onClose?.();
+  }
+
+  /**
+   * Show settings that changed elsewhere, e.g. the difficulty picked in player setup
+   */
+  setSettings(settings: GameSettings): void {
+    this.settings = { ...settings };
+    this.render();
+  }
+
+  private apply(changes: Partial<GameSettings>): void {
+    this.settings = { ...this.settings, ...changes };
+    this.render();
+    this.onChange({ ...this.settings });
+  }
+
+  private render(): void {
+    this.graphics.value = this.settings.graphics;
+    this.shadows.checked = this.settings.shadows;
+    this.dragSensitivity.value = String(this.settings.dragSensitivity);
+    this.invertDrag.checked = this.settings.invertDrag;
+    this.cameraSpeed.value = String(this.settings.cameraSpeed);
+    this.aimAssist.value = this.settings.difficulty;
+    this.masterVolume.value = String(this.settings.masterVolume);
+    this.effectsVolume.value = String(this.settings.effectsVolume);
+    this.ambienceVolume.value = String(this.settings.ambienceVolume);
+    this.muted.checked = this.settings.muted;
+
+    this.setText('settings-drag-sensitivity-value', `${this.settings.dragSensitivity.toFixed(2)}×`);
+    this.setText('settings-camera-speed-value', `${this.settings.cameraSpeed.toFixed(2)}×`);
+    this.setText('settings-master-volume-value', `${Math.round(this.settings.masterVolume * 100)}%`);
+    this.setText('settings-effects-volume-value', `${Math.round(this.settings.effectsVolume * 100)}%`);
+    this.setText('settings-ambience-volume-value', `${Math.round(this.settings.ambienceVolume * 100)}%`);
+
+    const antialiasChanged = GRAPHICS_PRESETS[this.settings.graphics].antialias !== this.startupAntialias;
+    if (this.status) this.status.textContent = antialiasChanged ? 'Antialiasing changes after a reload' : '';
+  }
+
+  private setRange(input: HTMLInputElement, range: { min: number; max: number }): void {
+    input.min = String(range.min);
+    input.max = String(range.max);
+    input.step = '0.05';
+  }
+
+  private setText(id: string, text: string): void {
+    const element = document.getElementById(id);
+    if (element) element.textContent = text;
+  }
+}
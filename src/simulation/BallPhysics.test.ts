@@ -0,0 +1,72 @@
+import * as CANNON from 'cannon-es';
+import { describe, expect, it } from 'vitest';
+import { BALL_RADIUS, BallPhysics, BallStepResult } from './BallPhysics';
+import { FIXED_TIME_STEP } from './FixedStepLoop';
+import { createPhysicsWorld } from './PhysicsWorld';
+
+// A ball resting on an endless flat green, with the cup far out of the way
+function createBall(): { world: CANNON.World; ball: BallPhysics } {
+  const world = createPhysicsWorld();
+  const ground = new CANNON.Body({ mass: 0, shape: new CANNON.Plane() });
+  ground.quaternion.setFromEuler(-Math.PI / 2, 0, 0);
+  world.addBody(ground);
+
+  const ball = new BallPhysics(world, new CANNON.Vec3(0, BALL_RADIUS, 0));
+  ball.setHolePosition(new CANNON.Vec3(100, 0, 100));
+  return { world, ball };
+}
+
+function step(world: CANNON.World, ball: BallPhysics): BallStepResult {
+  world.step(FIXED_TIME_STEP);
+  return ball.step(FIXED_TIME_STEP);
+}
+
+describe('BallPhysics rest detection', () => {
+  it('counts a ball that was never hit as at rest', () => {
+    const { world, ball } = createBall();
+
+    expect(ball.isAtRest()).toBe(true);
+    expect(step(world, ball)).toBe('idle');
+  });
+
+  it('is not at rest while rolling and refuses another hit', () => {
+    const { world, ball } = createBall();
+    expect(ball.hit(new CANNON.Vec3(1, 0, 0), 5)).toBe(true);
+    step(world, ball);
+
+    expect(ball.isAtRest()).toBe(false);
+    expect(ball.getIsMoving()).toBe(true);
+    expect(ball.hit(new CANNON.Vec3(-1, 0, 0), 5)).toBe(false);
+  });
+
+  it('reports stopped exactly once, then stays idle', () => {
+    const { world, ball } = createBall();
+    ball.hit(new CANNON.Vec3(1, 0, 0), 3);
+
+    const results: BallStepResult[] = [];
+    for (let i = 0; i < 60 * 10; i++) results.push(step(world, ball));
+
+    expect(results.filter(result => result === 'stopped')).toHaveLength(1);
+    expect(results[results.length - 1]).toBe('idle');
+    expect(ball.isAtRest()).toBe(true);
+    expect(ball.getBody().position.x).toBeGreaterThan(0.5);
+  });
+
+  it('is not at rest while falling, even with no horizontal speed', () => {
+    const { world, ball } = createBall();
+    ball.setPosition(new CANNON.Vec3(0, 2, 0));
+    step(world, ball);
+    step(world, ball);
+
+    expect(ball.isAtRest()).toBe(false);
+  });
+
+  it('counts a ball taken out of the world as at rest', () => {
+    const { world, ball } = createBall();
+    ball.hit(new CANNON.Vec3(1, 0, 0), 5);
+    step(world, ball);
+    ball.setInWorld(false);
+
+    expect(ball.isAtRest()).toBe(true);
+  });
+});
@@ -0,0 +1,292 @@
+import * as CANNON from 'cannon-es';
+import { DEFAULT_HAZARD_PENALTY, HazardHit, HazardZones } from './Hazards';
+import { getBallMaterial, GROUND_SURFACES, SurfaceZones } from './Surfaces';
+import { GROUND_COLLISION_GROUP, Terrain } from './Terrain';
+
+export const BALL_RADIUS = 0.3;
+
+// Steeper than this (rise over run) a slow ball keeps rolling instead of being brought to a stop
+const MAX_RESTING_SLOPE = 0.05;
+
+// On a slope, how long a ball has to stay slow to count as stopped rather than turning around
+const SLOPE_REST_TIME = 0.3;
+
+// A slow ball over the cup is on its way in; only one wedged on the rim of a cup narrower
+// than the ball stays there this long, and then it counts as stopped
+const CUP_REST_TIME = 1;
+
+// How far the ball has to dip into the cup before coming back out counts as a lip-out, not a skip over
+const LIP_OUT_DEPTH = 0.05;
+
+export type BallStepResult = 'moving' | 'stopped' | 'holed' | 'lippedOut' | 'hazard' | 'idle';
+
+/**
+ * The simulated golf ball: its cannon-es body, how a hit is applied and the
+ * per-step rolling and cup rules. Rendering and UI live in Ball.
+ */
+export class BallPhysics {
+  private world: CANNON.World;
+  private body: CANNON.Body;
+  private isMoving: boolean = false;
+  private moveThreshold: number = 0.1; // Minimum velocity to consider ball as moving
+  private holePosition: CANNON.Vec3 | null = null;
+  private holeRadius: number = 0.4;
+  private terrain: Terrain | null = null; // Flat ground at y=0 when not set
+  private slowTime: number = 0; // Seconds the ball has been below moveThreshold
+  private dippedIntoCup: boolean = false; // Sank below the rim on this pass over the opening
+  private isHoled: boolean = false;
+  private inWorld: boolean = false;
+  private hazards: HazardZones | null = null;
+  private surfaces: SurfaceZones | null = null; // Carpet everywhere when not set
+  private lastHazard: HazardHit | null = null;
+  private lastRestPosition: CANNON.Vec3 = new CANNON.Vec3(); // Where a hazard sends the ball back to
+
+  constructor(world: CANNON.World, position: CANNON.Vec3) {
+    this.world = world;
+
+    // Create physics body
+    const ballShape = new CANNON.Sphere(BALL_RADIUS);
+    this.body = new CANNON.Body({
+      mass: 0.045, // Standard golf ball mass in kg
+      shape: ballShape,
+      material: getBallMaterial('carpet')
+    });
+
+    // Add damping to make the ball slow down naturally
+    this.body.linearDamping = 0.4;  // Reduces linear velocity over time
+    this.body.angularDamping = 0.4; // Reduces rotational velocity over time
+
+    this.body.position.copy(position);
+    this.lastRestPosition.copy(position);
+    this.setInWorld(true);
+  }
+
+  setHolePosition(position: CANNON.Vec3, radius: number = 0.4): void {
+    this.holePosition = position.clone();
+    this.holeRadius = radius;
+  }
+
+  setHazards(hazards: HazardZones | null): void {
+    this.hazards = hazards;
+  }
+
+  setTerrain(terrain: Terrain | null): void {
+    this.terrain = terrain;
+  }
+
+  setSurfaces(surfaces: SurfaceZones | null): void {
+    this.surfaces = surfaces;
+  }
+
+  /**
+   * Strike the ball along direction (only its horizontal part counts) with the given power.
+   * Returns false when the ball can't be hit right now.
+   */
+  hit(direction: CANNON.Vec3, power: number): boolean {
+    if (this.isMoving || this.isHoled) return false;
+
+    // Apply force to the ball
+    const horizontal = new CANNON.Vec3(direction.x, direction.y, direction.z);
+    horizontal.normalize();
+    this.body.velocity.set(horizontal.x * power, 0, horizontal.z * power);
+
+    // Add slight upward velocity for realistic trajectory
+    this.body.velocity.y = power * 0.1;
+
+    this.isMoving = true;
+    this.slowTime = 0;
+    this.dippedIntoCup = false;
+    return true;
+  }
+
+  /**
+   * Rolling and cup rules for one fixed physics step; call after the world has stepped
+   */
+  step(deltaTime: number): BallStepResult {
+    if (this.isHoled || !this.inWorld) return 'idle';
+
+    const position = this.body.position;
+
+    // Holed once the whole ball is below the rim; the cup's liner decides whether it gets that far
+    const overHole = this.isOverHole();
+    if (overHole && position.y < this.holePosition!.y - BALL_RADIUS) {
+      this.isHoled = true;
+      this.isMoving = false;
+      this.dippedIntoCup = false;
+      this.body.velocity.set(0, 0, 0);
+      this.body.angularVelocity.set(0, 0, 0);
+      return 'holed';
+    }
+
+    // Fallen below the green anywhere else, e.g. into a chasm
+    if (!overHole && position.y < this.getGroundHeight() - 0.1) {
+      return this.enterHazard(this.hazards?.check(position.x, position.y, position.z, true) ?? null);
+    }
+
+    const hazard = this.hazards?.check(position.x, position.y, position.z);
+    if (hazard) {
+      return this.enterHazard(hazard);
+    }
+
+    // Over the cup opening or a chasm there is no green underneath: stop touching the ground for the next step
+    const overOpening = overHole || (this.hazards?.isOverChasm(position.x, position.z) ?? false);
+    this.body.collisionFilterMask = overOpening ? ~GROUND_COLLISION_GROUP : -1;
+
+    // Rattled around the rim and came back out
+    let lippedOut = false;
+    if (overHole && position.y < this.holePosition!.y + BALL_RADIUS - LIP_OUT_DEPTH) {
+      this.dippedIntoCup = true;
+    } else if (!overHole && this.dippedIntoCup) {
+      this.dippedIntoCup = false;
+      lippedOut = true;
+    }
+
+    // Play the contacts of the next step off whatever the ball is on now
+    const surface = this.surfaces?.getSurfaceAt(position.x, position.z) ?? 'carpet';
+    this.body.material = getBallMaterial(surface);
+
+    // Apply friction to reduce velocity over time (per 1/60 s, whatever the step)
+    const frictionForce = Math.pow(GROUND_SURFACES[surface].rollingFriction, deltaTime * 60);
+    this.body.velocity.x *= frictionForce;
+    this.body.velocity.z *= frictionForce;
+
+    // Check if ball has very little velocity and stop it completely, unless the green slopes it away
+    const speed = this.getHorizontalSpeed();
+    if (speed < 0.05 && !this.isOnSlope()) {
+      this.body.velocity.set(0, this.body.velocity.y, 0);
+      this.body.angularVelocity.set(0, 0, 0);
+    }
+
+    this.slowTime = speed < this.moveThreshold ? this.slowTime + deltaTime : 0;
+
+    // Stopped on the green, so this is a safe spot to come back to
+    if (this.isAtRest() && !overHole) {
+      this.lastRestPosition.copy(position);
+    }
+
+    if (this.isMoving && this.isAtRest()) {
+      this.isMoving = false;
+      return 'stopped';
+    }
+
+    if (lippedOut) return 'lippedOut';
+    return this.isMoving ? 'moving' : 'idle';
+  }
+
+  isOverHole(): boolean {
+    if (!this.holePosition) return false;
+
+    const dx = this.body.position.x - this.holePosition.x;
+    const dz = this.body.position.z - this.holePosition.z;
+    return Math.sqrt(dx * dx + dz * dz) < this.holeRadius;
+  }
+
+  /**
+   * True when the ball has no meaningful velocity, however it got moving
+   */
+  isAtRest(): boolean {
+    if (!this.inWorld || this.isHoled) return true;
+    if (this.getHorizontalSpeed() >= this.moveThreshold) return false;
+
+    // Still dropping, e.g. into the cup or off a tier
+    if (Math.abs(this.body.velocity.y) >= this.moveThreshold) return false;
+    if (this.isOverHole()) return this.slowTime >= CUP_REST_TIME;
+
+    // Slow at the top of an uphill roll isn't stopped; it has to stay slow for a moment
+    return !this.isOnSlope() || this.slowTime >= SLOPE_REST_TIME;
+  }
+
+  getIsMoving(): boolean {
+    return this.isMoving;
+  }
+
+  getIsHoled(): boolean {
+    return this.isHoled;
+  }
+
+  /**
+   * The hazard the ball most recently went into, for the step that returned 'hazard'
+   */
+  getLastHazard(): HazardHit | null {
+    return this.lastHazard;
+  }
+
+  /**
+   * Put the ball back into play after it was holed, e.g. on a retry
+   */
+  clearHoled(): void {
+    this.isHoled = false;
+    this.isMoving = false;
+  }
+
+  setPosition(position: CANNON.Vec3): void {
+    this.dippedIntoCup = false;
+    this.body.collisionFilterMask = -1;
+    this.body.position.copy(position);
+    this.lastRestPosition.copy(position);
+    this.body.velocity.set(0, 0, 0);
+    this.body.angularVelocity.set(0, 0, 0);
+    this.isMoving = false;
+  }
+
+  stop(): void {
+    this.body.velocity.set(0, 0, 0);
+    this.body.angularVelocity.set(0, 0, 0);
+  }
+
+  /**
+   * Add the body to the world or take it out, e.g. while waiting to tee off
+   */
+  setInWorld(inWorld: boolean): void {
+    if (inWorld === this.inWorld) return;
+
+    this.inWorld = inWorld;
+    if (inWorld) {
+      this.world.addBody(this.body);
+    } else {
+      this.stop();
+      this.world.removeBody(this.body);
+    }
+  }
+
+  getIsInWorld(): boolean {
+    return this.inWorld;
+  }
+
+  getBody(): CANNON.Body {
+    return this.body;
+  }
+
+  dispose(): void {
+    this.world.removeBody(this.body);
+    this.inWorld = false;
+  }
+
+  /**
+   * Take the ball out of a hazard and put it down at the drop zone or where it last rested
+   */
+  private enterHazard(hazard: HazardHit | null): BallStepResult {
+    this.lastHazard = hazard ?? {
+      type: 'outOfBounds',
+      penalty: DEFAULT_HAZARD_PENALTY,
+      position: [this.body.position.x, this.body.position.y, this.body.position.z]
+    };
+
+    const dropZone = this.lastHazard.dropZone;
+    this.setPosition(dropZone ? new CANNON.Vec3(...dropZone) : this.lastRestPosition.clone());
+    return 'hazard';
+  }
+
+  private getGroundHeight(): number {
+    return this.terrain?.getHeightAt(this.body.position.x, this.body.position.z) ?? 0;
+  }
+
+  private isOnSlope(): boolean {
+    return (this.terrain?.getSlopeAt(this.body.position.x, this.body.position.z) ?? 0) > MAX_RESTING_SLOPE;
+  }
+
+  private getHorizontalSpeed(): number {
+    const velocity = this.body.velocity;
+    return Math.sqrt(velocity.x * velocity.x + velocity.z * velocity.z);
+  }
+}
@@ -0,0 +1,182 @@
+import * as CANNON from 'cannon-es';
+import { BarrierSurfaceType, LevelData, ObstacleData, WallData } from '../levels/LevelData';
+import { createCupBody } from './Cup';
+import { MovingObstacle } from './MovingObstacle';
+import { getObstacleGeometry, triangulateFaces } from './ObstacleGeometry';
+import { BARRIER_MATERIALS, GROUND_MATERIAL } from './Surfaces';
+import { Terrain } from './Terrain';
+
+// Defaults for wall segments that don't specify their own dimensions
+export const DEFAULT_WALL_HEIGHT = 0.6;
+export const DEFAULT_WALL_THICKNESS = 0.6;
+
+// Sides of a cylinder obstacle, for its collider and its mesh alike
+export const CYLINDER_SEGMENTS = 24;
+
+/**
+ * The cannon-es bodies of a hole, built straight from its level data: static walls and
+ * obstacles plus kinematic moving obstacles driven by the course's own simulation clock.
+ * No Three.js or DOM in here, so the same course can be simulated in Node.
+ */
+export class CoursePhysics {
+  private world: CANNON.World;
+  private data: LevelData;
+  private terrain: Terrain;
+  private bodies: CANNON.Body[] = [];
+  private ground: CANNON.Body | null = null;
+  private cup: CANNON.Body | null = null;
+  private movingObstacles: MovingObstacle[] = [];
+  private time: number = 0; // Seconds of simulation since the course was loaded
+
+  constructor(world: CANNON.World, data: LevelData) {
+    this.world = world;
+    this.data = data;
+    this.terrain = new Terrain(data);
+  }
+
+  load(): void {
+    this.ground = this.createGround();
+    this.addBody(this.ground);
+    this.cup = createCupBody(this.data.cup);
+    this.addBody(this.cup);
+    this.data.walls.forEach(wall => this.addBody(this.createWall(wall)));
+    (this.data.obstacles || []).forEach(obstacle => this.addBody(this.createObstacle(obstacle)));
+
+    this.movingObstacles = (this.data.movingObstacles || []).map(data => new MovingObstacle(data));
+    this.movingObstacles.forEach(obstacle => this.addBody(obstacle.getBody()));
+    this.setTime(0);
+  }
+
+  unload(): void {
+    this.bodies.forEach(body => this.world.removeBody(body));
+    this.bodies = [];
+    this.ground = null;
+    this.cup = null;
+    this.movingObstacles = [];
+  }
+
+  /**
+   * Move the moving obstacles along for one physics step; call right before the world steps
+   */
+  step(deltaTime: number): void {
+    this.movingObstacles.forEach(obstacle => obstacle.prepareStep(this.time, deltaTime));
+    this.time += deltaTime;
+  }
+
+  /**
+   * Jump the course clock, e.g. to play a shot from the moment it was hit
+   */
+  setTime(time: number): void {
+    this.time = time;
+    this.movingObstacles.forEach(obstacle => obstacle.moveTo(time));
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  hasMovingObstacles(): boolean {
+    return this.movingObstacles.length > 0;
+  }
+
+  getBodies(): CANNON.Body[] {
+    return this.bodies;
+  }
+
+  /**
+   * True for walls and obstacles, i.e. anything the ball bounces off rather than rolls on or drops into
+   */
+  isBarrier(body: CANNON.Body): boolean {
+    return body !== this.ground && body !== this.cup && this.bodies.includes(body);
+  }
+
+  private addBody(body: CANNON.Body): void {
+    this.world.addBody(body);
+    this.bodies.push(body);
+  }
+
+  private createGround(): CANNON.Body {
+    // Flat plane or heightfield, whichever the level's floor calls for
+    const groundBody = this.terrain.createGroundBody();
+
+    // How it plays depends on the surface under the ball, see Surfaces
+    groundBody.material = GROUND_MATERIAL;
+
+    return groundBody;
+  }
+
+  private createWall(wall: WallData): CANNON.Body {
+    const height = wall.height ?? DEFAULT_WALL_HEIGHT;
+    const thickness = wall.thickness ?? DEFAULT_WALL_THICKNESS;
+    const [fromX, fromZ] = wall.from;
+    const [toX, toZ] = wall.to;
+    const dx = toX - fromX;
+    const dz = toZ - fromZ;
+
+    // From the lowest ground under the wall to its height above the highest
+    const [bottom, top] = this.terrain.getHeightRange(wall.from, wall.to);
+    const span = top - bottom + height;
+
+    // Centered on the segment with the box's length (local Z) along it
+    return this.createCollisionSurface(
+      new CANNON.Box(new CANNON.Vec3(thickness / 2, span / 2, Math.sqrt(dx * dx + dz * dz) / 2)),
+      new CANNON.Vec3((fromX + toX) / 2, bottom + span / 2, (fromZ + toZ) / 2),
+      Math.atan2(dx, dz),
+      wall.surface ?? 'wood'
+    );
+  }
+
+  private createObstacle(obstacle: ObstacleData): CANNON.Body {
+    const position = new CANNON.Vec3(...obstacle.position);
+
+    switch (obstacle.type) {
+      case 'box': {
+        const [width, height, depth] = obstacle.size;
+        return this.createCollisionSurface(
+          new CANNON.Box(new CANNON.Vec3(width / 2, height / 2, depth / 2)),
+          position,
+          obstacle.rotation ?? 0,
+          obstacle.surface ?? 'wood'
+        );
+      }
+      case 'cylinder':
+        return this.createCollisionSurface(
+          new CANNON.Cylinder(obstacle.radius, obstacle.radius, obstacle.height, CYLINDER_SEGMENTS),
+          position,
+          0,
+          obstacle.surface ?? 'wood'
+        );
+      case 'prism':
+      case 'mesh': {
+        // Convex solids collide as a hull, anything else as a static triangle mesh
+        const { vertices, faces, convex } = getObstacleGeometry(obstacle);
+        const shape = convex
+          ? new CANNON.ConvexPolyhedron({ vertices: vertices.map(vertex => new CANNON.Vec3(...vertex)), faces })
+          : new CANNON.Trimesh(vertices.flat(), triangulateFaces(faces));
+        return this.createCollisionSurface(shape, position, obstacle.rotation ?? 0, obstacle.surface ?? 'wood');
+      }
+    }
+  }
+
+  /**
+   * Static body for a wall or obstacle
+   */
+  private createCollisionSurface(
+    shape: CANNON.Shape,
+    position: CANNON.Vec3,
+    rotationY: number,
+    surface: BarrierSurfaceType
+  ): CANNON.Body {
+    // Create a static physics body for collision
+    const body = new CANNON.Body({
+      mass: 0, // mass 0 = static
+      material: BARRIER_MATERIALS[surface]
+    });
+
+    body.addShape(shape);
+    body.position.copy(position);
+    body.quaternion.setFromAxisAngle(new CANNON.Vec3(0, 1, 0), rotationY);
+
+    return body;
+  }
+}
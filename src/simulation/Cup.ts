@@ -0,0 +1,42 @@
+import * as CANNON from 'cannon-es';
+import { CupData } from '../levels/LevelData';
+import { CUP_MATERIAL } from './Surfaces';
+
+// Deep enough for a ball (radius 0.3) to sit below the rim
+export const CUP_DEPTH = 0.7;
+
+// The liner is a ring of thin boxes around the opening, closed off by a floor
+export const CUP_WALL_SEGMENTS = 24;
+const CUP_WALL_THICKNESS = 0.1;
+
+/**
+ * Static body of the cup: the liner from the rim down to the floor. The green has no hole
+ * of its own, so the ball stops colliding with the ground while it is over the opening
+ * (see BallPhysics) and the liner's top edges act as the rim.
+ */
+export function createCupBody(cup: CupData): CANNON.Body {
+  const [x, y, z] = cup.position;
+  const body = new CANNON.Body({ mass: 0, material: CUP_MATERIAL });
+  body.position.set(x, y, z);
+
+  // Inner faces touch the opening; each box is a little wider than its share so corners meet
+  const halfWidth = cup.radius * Math.tan(Math.PI / CUP_WALL_SEGMENTS) + CUP_WALL_THICKNESS / 2;
+  const wall = new CANNON.Box(new CANNON.Vec3(halfWidth, CUP_DEPTH / 2, CUP_WALL_THICKNESS / 2));
+  for (let i = 0; i < CUP_WALL_SEGMENTS; i++) {
+    const angle = (i / CUP_WALL_SEGMENTS) * Math.PI * 2;
+    const distance = cup.radius + CUP_WALL_THICKNESS / 2;
+    body.addShape(
+      wall,
+      new CANNON.Vec3(Math.sin(angle) * distance, -CUP_DEPTH / 2, Math.cos(angle) * distance),
+      new CANNON.Quaternion().setFromAxisAngle(new CANNON.Vec3(0, 1, 0), angle)
+    );
+  }
+
+  const floorHalfSize = cup.radius + CUP_WALL_THICKNESS;
+  body.addShape(
+    new CANNON.Box(new CANNON.Vec3(floorHalfSize, CUP_WALL_THICKNESS / 2, floorHalfSize)),
+    new CANNON.Vec3(0, -CUP_DEPTH - CUP_WALL_THICKNESS / 2, 0)
+  );
+
+  return body;
+}
@@ -0,0 +1,45 @@
+/**
+ * Physics step every machine agrees on. Gameplay only ever advances in these steps,
+ * so a shot plays out the same at 30, 60 or 144 frames per second.
+ */
+export const FIXED_TIME_STEP = 1 / 60;
+
+// A long hitch (tab in the background, debugger pause) is dropped instead of
+// being simulated all at once, which would freeze the game while it catches up
+const MAX_FRAME_TIME = 0.25;
+
+/**
+ * Accumulator that turns variable frame times into whole fixed steps
+ */
+export class FixedStepLoop {
+  private step: number;
+  private accumulator: number = 0;
+
+  constructor(step: number = FIXED_TIME_STEP) {
+    this.step = step;
+  }
+
+  /**
+   * Run as many fixed steps as the elapsed frame time covers.
+   * Returns how far (0..1) the leftover time reaches into the next step,
+   * for interpolating what is drawn between the last two physics states.
+   */
+  advance(frameTime: number, stepFn: (step: number) => void): number {
+    this.accumulator += Math.min(Math.max(frameTime, 0), MAX_FRAME_TIME);
+
+    while (this.accumulator >= this.step) {
+      stepFn(this.step);
+      this.accumulator -= this.step;
+    }
+
+    return this.accumulator / this.step;
+  }
+
+  reset(): void {
+    this.accumulator = 0;
+  }
+
+  getStep(): number {
+    return this.step;
+  }
+}
@@ -0,0 +1,72 @@
+import { HazardData, HazardType, LevelData, Vec2Data, Vec3Data } from '../levels/LevelData';
+
+// Strokes added for a hazard that doesn't set its own penalty, and for leaving the green
+export const DEFAULT_HAZARD_PENALTY = 1;
+
+export interface HazardHit {
+  type: HazardType;
+  penalty: number;
+  position: Vec3Data; // Where the ball went in
+  dropZone?: Vec3Data; // Where it goes back down, if the hazard has its own drop zone
+}
+
+/**
+ * Even-odd test of a point on the ground plane against a polygon outline
+ */
+export function isPointInPolygon(x: number, z: number, polygon: Vec2Data[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, zi] = polygon[i];
+    const [xj, zj] = polygon[j];
+    if ((zi > z) !== (zj > z) && x < ((xj - xi) * (z - zi)) / (zj - zi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * The hazard zones of a hole. Anything off the green counts as out of bounds,
+ * whether or not the level marks it.
+ */
+export class HazardZones {
+  private data: LevelData;
+
+  constructor(data: LevelData) {
+    this.data = data;
+  }
+
+  /**
+   * The hazard the ball is in at this point, if any. Chasms only count once the ball
+   * has dropped into them (see isOverChasm), so they are left out unless fallen is set.
+   */
+  check(x: number, y: number, z: number, fallen: boolean = false): HazardHit | null {
+    const hazard = (this.data.hazards || []).find(zone =>
+      (fallen || zone.type !== 'chasm') && isPointInPolygon(x, z, zone.polygon)
+    );
+    if (hazard) {
+      return this.toHit(hazard, [x, y, z]);
+    }
+
+    if (fallen || !isPointInPolygon(x, z, this.data.floor.polygon)) {
+      return { type: 'outOfBounds', penalty: DEFAULT_HAZARD_PENALTY, position: [x, y, z] };
+    }
+    return null;
+  }
+
+  /**
+   * True where there is no ground for the ball to roll on
+   */
+  isOverChasm(x: number, z: number): boolean {
+    return (this.data.hazards || []).some(zone => zone.type === 'chasm' && isPointInPolygon(x, z, zone.polygon));
+  }
+
+  private toHit(hazard: HazardData, position: Vec3Data): HazardHit {
+    return {
+      type: hazard.type,
+      penalty: hazard.penalty ?? DEFAULT_HAZARD_PENALTY,
+      position,
+      dropZone: hazard.dropZone
+    };
+  }
+}
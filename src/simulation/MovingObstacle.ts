@@ -0,0 +1,173 @@
+import * as CANNON from 'cannon-es';
+import { MovingObstacleData } from '../levels/LevelData';
+import { BARRIER_MATERIALS } from './Surfaces';
+
+// Defaults for optional moving obstacle fields
+export const DEFAULT_BLADE_WIDTH = 0.4;
+export const DEFAULT_BLADE_COUNT = 4;
+export const DEFAULT_PENDULUM_AMPLITUDE = Math.PI / 4;
+export const BLADE_THICKNESS = 0.1;
+
+export interface ObstaclePose {
+  position: CANNON.Vec3;
+  quaternion: CANNON.Quaternion;
+}
+
+export interface ObstaclePart {
+  shape: CANNON.Shape;
+  offset: CANNON.Vec3;
+  orientation: CANNON.Quaternion;
+}
+
+const Y_AXIS = new CANNON.Vec3(0, 1, 0);
+const Z_AXIS = new CANNON.Vec3(0, 0, 1);
+
+function aroundY(angle: number): CANNON.Quaternion {
+  return new CANNON.Quaternion().setFromAxisAngle(Y_AXIS, angle);
+}
+
+function aroundZ(angle: number): CANNON.Quaternion {
+  return new CANNON.Quaternion().setFromAxisAngle(Z_AXIS, angle);
+}
+
+/**
+ * Where a moving obstacle is at a given simulation time. A pure function of the level data,
+ * so the physics body, its mesh and replays all agree.
+ */
+export function getMovingObstaclePose(data: MovingObstacleData, time: number): ObstaclePose {
+  const cycle = time / data.period + (data.phase ?? 0);
+  const angle = cycle * Math.PI * 2;
+
+  switch (data.type) {
+    case 'windmill':
+      return {
+        position: new CANNON.Vec3(...data.position),
+        quaternion: aroundY(data.rotation ?? 0).mult(aroundZ(-angle))
+      };
+    case 'slider': {
+      // Eases in and out at both ends of the track
+      const along = (1 - Math.cos(angle)) / 2;
+      const [x, y, z] = data.position;
+      return {
+        position: new CANNON.Vec3(x + data.travel[0] * along, y, z + data.travel[1] * along),
+        quaternion: aroundY(data.rotation ?? 0)
+      };
+    }
+    case 'pendulum': {
+      const swing = (data.amplitude ?? DEFAULT_PENDULUM_AMPLITUDE) * Math.sin(angle);
+      return {
+        position: new CANNON.Vec3(...data.pivot),
+        quaternion: aroundY(data.rotation ?? 0).mult(aroundZ(swing))
+      };
+    }
+    case 'gate':
+      return {
+        position: new CANNON.Vec3(...data.position),
+        quaternion: aroundY(angle)
+      };
+  }
+}
+
+/**
+ * The collision shapes of a moving obstacle, relative to its pose
+ */
+export function getMovingObstacleParts(data: MovingObstacleData): ObstaclePart[] {
+  const identity = new CANNON.Quaternion();
+
+  switch (data.type) {
+    case 'windmill': {
+      const count = data.bladeCount ?? DEFAULT_BLADE_COUNT;
+      const width = data.bladeWidth ?? DEFAULT_BLADE_WIDTH;
+      const parts: ObstaclePart[] = [];
+      for (let i = 0; i < count; i++) {
+        // Blades point out from the hub, evenly spaced around it
+        const bladeAngle = (i / count) * Math.PI * 2;
+        parts.push({
+          shape: new CANNON.Box(new CANNON.Vec3(width / 2, data.bladeLength / 2, BLADE_THICKNESS / 2)),
+          offset: new CANNON.Vec3(-Math.sin(bladeAngle) * data.bladeLength / 2, Math.cos(bladeAngle) * data.bladeLength / 2, 0),
+          orientation: aroundZ(bladeAngle)
+        });
+      }
+      return parts;
+    }
+    case 'slider':
+    case 'gate': {
+      const [width, height, depth] = data.size;
+      return [{
+        shape: new CANNON.Box(new CANNON.Vec3(width / 2, height / 2, depth / 2)),
+        offset: new CANNON.Vec3(),
+        orientation: identity
+      }];
+    }
+    case 'pendulum':
+      // Only the bob reaches down to the ball; the arm is decoration
+      return [{
+        shape: new CANNON.Sphere(data.bobRadius),
+        offset: new CANNON.Vec3(0, -data.length, 0),
+        orientation: identity
+      }];
+  }
+}
+
+/**
+ * A kinematic body that follows getMovingObstaclePose. Before each physics step its velocity
+ * is set to carry it to the next pose, so the ball is pushed with the right speed.
+ */
+export class MovingObstacle {
+  private data: MovingObstacleData;
+  private body: CANNON.Body;
+
+  constructor(data: MovingObstacleData) {
+    this.data = data;
+    this.body = new CANNON.Body({
+      mass: 0,
+      type: CANNON.Body.KINEMATIC,
+      material: BARRIER_MATERIALS.wood // Same as the static walls
+    });
+
+    getMovingObstacleParts(data).forEach(part => this.body.addShape(part.shape, part.offset, part.orientation));
+    this.moveTo(0);
+  }
+
+  /**
+   * Jump straight to the pose at a time, standing still
+   */
+  moveTo(time: number): void {
+    const pose = getMovingObstaclePose(this.data, time);
+    this.body.position.copy(pose.position);
+    this.body.quaternion.copy(pose.quaternion);
+    this.body.velocity.setZero();
+    this.body.angularVelocity.setZero();
+  }
+
+  /**
+   * Put the body at its pose for time and aim it at the pose one step later
+   */
+  prepareStep(time: number, deltaTime: number): void {
+    const from = getMovingObstaclePose(this.data, time);
+    const to = getMovingObstaclePose(this.data, time + deltaTime);
+
+    this.body.position.copy(from.position);
+    this.body.quaternion.copy(from.quaternion);
+    to.position.vsub(from.position, this.body.velocity);
+    this.body.velocity.scale(1 / deltaTime, this.body.velocity);
+
+    // Rotation over the step, taking the short way round
+    const turn = to.quaternion.mult(from.quaternion.conjugate());
+    if (turn.w < 0) {
+      turn.set(-turn.x, -turn.y, -turn.z, -turn.w);
+    }
+    const sinHalf = Math.sqrt(turn.x * turn.x + turn.y * turn.y + turn.z * turn.z);
+    if (sinHalf < 1e-9) {
+      this.body.angularVelocity.setZero();
+      return;
+    }
+    const turnAngle = 2 * Math.atan2(sinHalf, turn.w);
+    this.body.angularVelocity.set(turn.x, turn.y, turn.z);
+    this.body.angularVelocity.scale(turnAngle / sinHalf / deltaTime, this.body.angularVelocity);
+  }
+
+  getBody(): CANNON.Body {
+    return this.body;
+  }
+}
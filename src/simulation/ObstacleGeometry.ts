@@ -0,0 +1,120 @@
+import { MeshObstacleData, PrismObstacleData, Vec2Data, Vec3Data } from '../levels/LevelData';
+
+/**
+ * Vertices around an obstacle's position and the faces between them, each face a convex
+ * polygon listed counter-clockwise as seen from outside. Physics and rendering are both
+ * built from this, so what you see is what the ball hits.
+ */
+export interface ObstacleGeometry {
+  vertices: Vec3Data[];
+  faces: number[][];
+  convex: boolean; // Whether the whole solid is convex, so it can collide as a ConvexPolyhedron
+}
+
+// Twice the signed area of a footprint; positive when it winds counter-clockwise in (x, z)
+function signedArea(points: Vec2Data[]): number {
+  let area = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += points[j][0] * points[i][1] - points[i][0] * points[j][1];
+  }
+  return area;
+}
+
+function cross(a: Vec2Data, b: Vec2Data, c: Vec2Data): number {
+  return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+}
+
+export function isConvexPolygon(points: Vec2Data[]): boolean {
+  const sign = Math.sign(signedArea(points));
+  return points.every((point, i) => {
+    const next = points[(i + 1) % points.length];
+    const after = points[(i + 2) % points.length];
+    return cross(point, next, after) * sign >= 0;
+  });
+}
+
+/**
+ * Ear clipping of a simple polygon that winds counter-clockwise in (x, z).
+ * Triangles come out with the same winding.
+ */
+export function triangulatePolygon(points: Vec2Data[]): [number, number, number][] {
+  const remaining = points.map((_, i) => i);
+  const triangles: [number, number, number][] = [];
+
+  const isInside = (p: Vec2Data, a: Vec2Data, b: Vec2Data, c: Vec2Data) =>
+    cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+
+  while (remaining.length > 3) {
+    const count = remaining.length;
+    const ear = remaining.findIndex((current, i) => {
+      const previous = remaining[(i + count - 1) % count];
+      const next = remaining[(i + 1) % count];
+      const [a, b, c] = [points[previous], points[current], points[next]];
+      if (cross(a, b, c) <= 0) return false; // Reflex corner
+
+      return !remaining.some(other =>
+        other !== previous && other !== current && other !== next && isInside(points[other], a, b, c)
+      );
+    });
+    if (ear === -1) break; // Not a simple polygon; keep what was clipped so far
+
+    triangles.push([remaining[(ear + count - 1) % count], remaining[ear], remaining[(ear + 1) % count]]);
+    remaining.splice(ear, 1);
+  }
+
+  if (remaining.length === 3) {
+    triangles.push([remaining[0], remaining[1], remaining[2]]);
+  }
+  return triangles;
+}
+
+/**
+ * An upright prism: the footprint at the bottom and top, joined by a quad per edge.
+ * Concave footprints get their caps split into triangles.
+ */
+function getPrismGeometry(prism: PrismObstacleData): ObstacleGeometry {
+  const footprint = signedArea(prism.points) < 0 ? [...prism.points].reverse() : prism.points;
+  const count = footprint.length;
+  const halfHeight = prism.height / 2;
+
+  // Bottom ring first, then the top ring
+  const vertices: Vec3Data[] = [
+    ...footprint.map(([x, z]): Vec3Data => [x, -halfHeight, z]),
+    ...footprint.map(([x, z]): Vec3Data => [x, halfHeight, z])
+  ];
+
+  const convex = isConvexPolygon(footprint);
+  const caps: number[][] = convex ? [footprint.map((_, i) => i)] : triangulatePolygon(footprint);
+
+  const faces: number[][] = [];
+  caps.forEach(cap => {
+    faces.push(cap); // Counter-clockwise in (x, z) faces down
+    faces.push([...cap].reverse().map(i => i + count));
+  });
+  for (let i = 0; i < count; i++) {
+    const next = (i + 1) % count;
+    faces.push([i, i + count, next + count, next]);
+  }
+
+  return { vertices, faces, convex };
+}
+
+export function getObstacleGeometry(obstacle: PrismObstacleData | MeshObstacleData): ObstacleGeometry {
+  if (obstacle.type === 'prism') {
+    return getPrismGeometry(obstacle);
+  }
+  return { vertices: obstacle.vertices, faces: obstacle.faces, convex: obstacle.convex ?? false };
+}
+
+/**
+ * Every face fanned out into triangles, as a flat index list
+ */
+export function triangulateFaces(faces: number[][]): number[] {
+  const indices: number[] = [];
+  faces.forEach(face => {
+    for (let i = 1; i < face.length - 1; i++) {
+      indices.push(face[0], face[i], face[i + 1]);
+    }
+  });
+  return indices;
+}
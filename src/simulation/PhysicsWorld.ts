@@ -0,0 +1,13 @@
+import * as CANNON from 'cannon-es';
+import { addSurfaceContactMaterials } from './Surfaces';
+
+/**
+ * The cannon-es world every hole is simulated in, in the browser and headless alike
+ */
+export function createPhysicsWorld(): CANNON.World {
+  const world = new CANNON.World({
+    gravity: new CANNON.Vec3(0, -9.82, 0), // Earth gravity
+  });
+  addSurfaceContactMaterials(world);
+  return world;
+}
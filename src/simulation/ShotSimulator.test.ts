@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import level1 from '../levels/data/level1.json';
+import { LevelData, parseLevelData } from '../levels/LevelData';
+import { ShotSimulator, simulateShot } from './ShotSimulator';
+
+const level = parseLevelData(level1, 'level1.json');
+
+// Level 1 with a pond across the fairway, halfway between the tee and the cup
+function withPond(dropZone?: [number, number, number]): LevelData {
+  return {
+    ...structuredClone(level),
+    hazards: [{ type: 'water', polygon: [[-5, -1], [5, -1], [5, -2], [-5, -2]], penalty: 1, dropZone }]
+  };
+}
+
+describe('ShotSimulator', () => {
+  it('holes a straight putt of the right strength on level 1', () => {
+    const result = simulateShot(level, { direction: [0, 0, -1], power: 12 });
+
+    expect(result.holed).toBe(true);
+    expect(result.hazard).toBeNull();
+    expect(result.finalPosition[0]).toBeCloseTo(level.cup.position[0], 1);
+    expect(result.finalPosition[2]).toBeCloseTo(level.cup.position[2], 0);
+  });
+
+  it('waits for a ball dropping over the cup instead of calling it stopped', () => {
+    const result = simulateShot(level, { direction: [0, 0, -1], power: 15 });
+
+    expect(result.holed).toBe(true);
+    expect(result.atRest).toBe(false);
+  });
+
+  it('stops a soft putt short of the cup', () => {
+    const result = simulateShot(level, { direction: [0, 0, -1], power: 4 });
+
+    expect(result.holed).toBe(false);
+    expect(result.atRest).toBe(true);
+    expect(result.finalPosition[2]).toBeLessThan(level.start[2]);
+    expect(result.finalPosition[2]).toBeGreaterThan(level.cup.position[2] + level.cup.radius);
+  });
+
+  it('charges the penalty and puts the ball back where it was played from', () => {
+    const result = simulateShot(withPond(), { direction: [0, 0, -1], power: 8 });
+
+    expect(result.hazard?.type).toBe('water');
+    expect(result.hazard?.penalty).toBe(1);
+    expect(result.finalPosition[0]).toBeCloseTo(level.start[0]);
+    expect(result.finalPosition[2]).toBeCloseTo(level.start[2]);
+  });
+
+  it('drops the ball at the hazard\'s drop zone when it has one', () => {
+    const result = simulateShot(withPond([2, 0.5, 0]), { direction: [0, 0, -1], power: 8 });
+
+    expect(result.hazard?.dropZone).toEqual([2, 0.5, 0]);
+    expect(result.finalPosition).toEqual([2, 0.5, 0]);
+  });
+
+  it('plays the next shot from where the last one stopped', () => {
+    const simulator = new ShotSimulator(level);
+    const first = simulator.shoot([0, 0, -1], 4);
+    const second = simulator.shoot([0, 0, -1], 4);
+    simulator.dispose();
+
+    expect(second.atRest).toBe(true);
+    expect(second.finalPosition[2]).toBeLessThan(first.finalPosition[2] - 0.5);
+  });
+
+  it('reports a shot that runs out of steps as not at rest', () => {
+    const result = simulateShot(level, { direction: [0, 0, -1], power: 4, maxSteps: 10 });
+
+    expect(result.steps).toBe(10);
+    expect(result.atRest).toBe(false);
+  });
+});
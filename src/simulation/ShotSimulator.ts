@@ -0,0 +1,148 @@
+import * as CANNON from 'cannon-es';
+import { LevelData, Vec3Data } from '../levels/LevelData';
+import { BallPhysics } from './BallPhysics';
+import { CoursePhysics } from './CoursePhysics';
+import { FIXED_TIME_STEP } from './FixedStepLoop';
+import { HazardHit, HazardZones } from './Hazards';
+import { createPhysicsWorld } from './PhysicsWorld';
+import { SurfaceZones } from './Surfaces';
+import { Terrain } from './Terrain';
+
+// A minute of simulated time is far longer than any real putt takes to settle
+const DEFAULT_MAX_STEPS = 60 * 60;
+
+export interface ShotResult {
+  finalPosition: Vec3Data;
+  steps: number;
+  holed: boolean;
+  hazard: HazardHit | null; // Set when the shot ended in a hazard; finalPosition is then where the ball was put back
+  atRest: boolean; // False when maxSteps ran out first
+}
+
+export interface ShotOptions {
+  direction: Vec3Data; // Same as Ball.hit: only the horizontal part counts
+  power: number;
+  start?: Vec3Data; // Defaults to the level's tee
+  courseTime?: number; // Where moving obstacles are in their cycle when the shot is hit
+  maxSteps?: number;
+}
+
+/**
+ * Runs a hole without a browser: the level's bodies and a single ball in their own world,
+ * stepped exactly like the game's fixed-step loop
+ */
+export class ShotSimulator {
+  private world: CANNON.World;
+  private course: CoursePhysics;
+  private ball: BallPhysics;
+  private data: LevelData;
+
+  constructor(data: LevelData) {
+    this.data = data;
+    this.world = createPhysicsWorld();
+    this.course = new CoursePhysics(this.world, data);
+    this.course.load();
+
+    this.ball = new BallPhysics(this.world, new CANNON.Vec3(...data.start));
+    this.ball.setHolePosition(new CANNON.Vec3(...data.cup.position), data.cup.radius);
+    this.ball.setHazards(new HazardZones(data));
+    this.ball.setTerrain(new Terrain(data));
+    this.ball.setSurfaces(new SurfaceZones(data));
+  }
+
+  /**
+   * Put the ball down somewhere on the course, e.g. to replay a shot from where it was played
+   */
+  placeBall(position: Vec3Data): void {
+    this.ball.clearHoled();
+    this.ball.setPosition(new CANNON.Vec3(...position));
+  }
+
+  /**
+   * Set the course clock, so moving obstacles start where they were when the shot was hit
+   */
+  setCourseTime(time: number): void {
+    this.course.setTime(time);
+  }
+
+  /**
+   * Hit the ball and step until it is at rest or in the cup.
+   * Successive shots continue from wherever the previous one stopped.
+   * onStep sees the ball after every step and can end the shot early by returning true.
+   */
+  shoot(
+    direction: Vec3Data,
+    power: number,
+    maxSteps: number = DEFAULT_MAX_STEPS,
+    onStep?: (position: CANNON.Vec3, step: number) => boolean | void
+  ): ShotResult {
+    if (this.ball.getIsHoled()) {
+      throw new Error(`The ball is already in the cup on "${this.data.name}"`);
+    }
+    this.ball.hit(new CANNON.Vec3(...direction), power);
+
+    let steps = 0;
+    let holed = false;
+    let hazard: HazardHit | null = null;
+    let atRest = false;
+
+    while (steps < maxSteps) {
+      this.course.step(FIXED_TIME_STEP);
+      this.world.step(FIXED_TIME_STEP);
+      steps++;
+
+      const result = this.ball.step(FIXED_TIME_STEP);
+      if (result === 'holed') {
+        holed = true;
+        break;
+      }
+      if (result === 'hazard') {
+        hazard = this.ball.getLastHazard();
+        atRest = true;
+        break;
+      }
+      if (!this.ball.getIsMoving() && this.ball.isAtRest()) {
+        atRest = true;
+        break;
+      }
+      if (onStep?.(this.ball.getBody().position, steps)) break;
+    }
+
+    const position = this.ball.getBody().position;
+    return { finalPosition: [position.x, position.y, position.z], steps, holed, hazard, atRest };
+  }
+
+  getWorld(): CANNON.World {
+    return this.world;
+  }
+
+  getBall(): BallPhysics {
+    return this.ball;
+  }
+
+  getCourse(): CoursePhysics {
+    return this.course;
+  }
+
+  dispose(): void {
+    this.ball.dispose();
+    this.course.unload();
+  }
+}
+
+/**
+ * One-off shot on a fresh copy of the level
+ */
+export function simulateShot(data: LevelData, options: ShotOptions): ShotResult {
+  const simulator = new ShotSimulator(data);
+  if (options.start) {
+    simulator.placeBall(options.start);
+  }
+  if (options.courseTime !== undefined) {
+    simulator.setCourseTime(options.courseTime);
+  }
+
+  const result = simulator.shoot(options.direction, options.power, options.maxSteps);
+  simulator.dispose();
+  return result;
+}
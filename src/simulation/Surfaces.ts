@@ -0,0 +1,95 @@
+import * as CANNON from 'cannon-es';
+import { BarrierSurfaceType, GroundSurfaceType, LevelData } from '../levels/LevelData';
+import { isPointInPolygon } from './Hazards';
+
+export interface SurfaceContact {
+  friction: number;
+  restitution: number;
+}
+
+export interface GroundSurface extends SurfaceContact {
+  rollingFriction: number; // Share of horizontal speed kept per 1/60 s of rolling
+}
+
+// Carpet and wood match what the green and walls always played like
+export const GROUND_SURFACES: Record<GroundSurfaceType, GroundSurface> = {
+  carpet: { friction: 0.16, restitution: 0.24, rollingFriction: 0.995 },
+  sand: { friction: 0.6, restitution: 0.02, rollingFriction: 0.94 },
+  ice: { friction: 0.01, restitution: 0.2, rollingFriction: 0.9995 },
+  rough: { friction: 0.3, restitution: 0.12, rollingFriction: 0.975 }
+};
+
+export const BARRIER_SURFACES: Record<BarrierSurfaceType, SurfaceContact> = {
+  wood: { friction: 0.16, restitution: 0.64 },
+  rubber: { friction: 0.3, restitution: 0.95 }
+};
+
+// Ball against ball, and against the cup's plastic liner
+const BALL_CONTACT: SurfaceContact = { friction: 0.16, restitution: 0.64 };
+const CUP_CONTACT: SurfaceContact = { friction: 0.3, restitution: 0.3 };
+
+// Materials carry no friction or restitution of their own: those would override the contact
+// materials below. The same instances are used by every world, browser or headless.
+export const GROUND_MATERIAL = new CANNON.Material('ground');
+
+export const CUP_MATERIAL = new CANNON.Material('cup');
+
+export const BARRIER_MATERIALS: Record<BarrierSurfaceType, CANNON.Material> = {
+  wood: new CANNON.Material('wood'),
+  rubber: new CANNON.Material('rubber')
+};
+
+// The ground is a single body, so the ball carries the surface it is on: one ball material per surface
+const BALL_MATERIALS: Record<GroundSurfaceType, CANNON.Material> = {
+  carpet: new CANNON.Material('ball-on-carpet'),
+  sand: new CANNON.Material('ball-on-sand'),
+  ice: new CANNON.Material('ball-on-ice'),
+  rough: new CANNON.Material('ball-on-rough')
+};
+
+export function getBallMaterial(surface: GroundSurfaceType): CANNON.Material {
+  return BALL_MATERIALS[surface];
+}
+
+/**
+ * Register how the ball plays off every surface
+ */
+export function addSurfaceContactMaterials(world: CANNON.World): void {
+  const add = (a: CANNON.Material, b: CANNON.Material, contact: SurfaceContact) => {
+    world.addContactMaterial(new CANNON.ContactMaterial(a, b, contact));
+  };
+
+  const grounds = Object.keys(BALL_MATERIALS) as GroundSurfaceType[];
+  grounds.forEach((ground, i) => {
+    const ball = BALL_MATERIALS[ground];
+    add(ball, GROUND_MATERIAL, GROUND_SURFACES[ground]);
+    add(ball, CUP_MATERIAL, CUP_CONTACT);
+
+    // Walls bounce the same whatever the ball is rolling on
+    (Object.keys(BARRIER_MATERIALS) as BarrierSurfaceType[]).forEach(barrier => {
+      add(ball, BARRIER_MATERIALS[barrier], BARRIER_SURFACES[barrier]);
+    });
+
+    grounds.slice(i).forEach(other => add(ball, BALL_MATERIALS[other], BALL_CONTACT));
+  });
+}
+
+/**
+ * The surface zones of a hole. Later zones are painted over earlier ones;
+ * everywhere else is the floor's own surface.
+ */
+export class SurfaceZones {
+  private data: LevelData;
+
+  constructor(data: LevelData) {
+    this.data = data;
+  }
+
+  getSurfaceAt(x: number, z: number): GroundSurfaceType {
+    const zones = this.data.surfaces || [];
+    for (let i = zones.length - 1; i >= 0; i--) {
+      if (isPointInPolygon(x, z, zones[i].polygon)) return zones[i].type;
+    }
+    return this.data.floor.surface ?? 'carpet';
+  }
+}
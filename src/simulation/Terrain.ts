@@ -0,0 +1,113 @@
+import * as CANNON from 'cannon-es';
+import { HeightfieldData, LevelData, Vec2Data } from '../levels/LevelData';
+
+// Collision group of the ground body, so a ball can stop touching it over the cup or a chasm
+export const GROUND_COLLISION_GROUP = 2;
+
+/**
+ * Height of the green anywhere on the course. Flat levels sit at y=0; levels with a
+ * heightfield follow its grid, split into triangles exactly like CANNON.Heightfield
+ * so the rendered floor, the physics and these lookups all agree.
+ */
+export class Terrain {
+  private heightfield: HeightfieldData | null;
+
+  constructor(data: LevelData) {
+    this.heightfield = data.floor.heightfield ?? null;
+  }
+
+  isFlat(): boolean {
+    return this.heightfield === null;
+  }
+
+  getHeightfield(): HeightfieldData | null {
+    return this.heightfield;
+  }
+
+  /**
+   * Height of the surface at a point; past the edges of the grid the edge height carries on
+   */
+  getHeightAt(x: number, z: number): number {
+    if (!this.heightfield) return 0;
+
+    const { origin, cellSize, heights } = this.heightfield;
+    const rows = heights.length;
+    const columns = heights[0].length;
+
+    const column = Math.min(Math.max((x - origin[0]) / cellSize, 0), columns - 1);
+    const row = Math.min(Math.max((z - origin[1]) / cellSize, 0), rows - 1);
+    const c0 = Math.min(Math.floor(column), columns - 2);
+    const r0 = Math.min(Math.floor(row), rows - 2);
+    const u = column - c0;
+    const v = row - r0;
+
+    // Each cell is cut along the diagonal from (c0, r0) to (c0 + 1, r0 + 1)
+    const h00 = heights[r0][c0];
+    const h10 = heights[r0][c0 + 1];
+    const h01 = heights[r0 + 1][c0];
+    const h11 = heights[r0 + 1][c0 + 1];
+    if (v <= u) {
+      return h00 + u * (h10 - h00) + v * (h11 - h10);
+    }
+    return h00 + v * (h01 - h00) + u * (h11 - h01);
+  }
+
+  /**
+   * Steepness of the surface at a point, as rise over run
+   */
+  getSlopeAt(x: number, z: number): number {
+    if (!this.heightfield) return 0;
+
+    const delta = this.heightfield.cellSize * 0.25;
+    const dx = this.getHeightAt(x + delta, z) - this.getHeightAt(x - delta, z);
+    const dz = this.getHeightAt(x, z + delta) - this.getHeightAt(x, z - delta);
+    return Math.hypot(dx, dz) / (2 * delta);
+  }
+
+  /**
+   * Lowest and highest surface along a segment, so walls can reach down to the ground everywhere
+   */
+  getHeightRange(from: Vec2Data, to: Vec2Data): [number, number] {
+    if (!this.heightfield) return [0, 0];
+
+    const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+    const samples = Math.max(1, Math.ceil(length / (this.heightfield.cellSize / 2)));
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i <= samples; i++) {
+      const t = i / samples;
+      const height = this.getHeightAt(from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t);
+      min = Math.min(min, height);
+      max = Math.max(max, height);
+    }
+    return [min, max];
+  }
+
+  /**
+   * The static ground body: an infinite plane for flat levels, otherwise the heightfield
+   */
+  createGroundBody(): CANNON.Body {
+    const body = new CANNON.Body({ mass: 0, collisionFilterGroup: GROUND_COLLISION_GROUP }); // Static body
+
+    if (!this.heightfield) {
+      body.addShape(new CANNON.Plane());
+      body.quaternion.setFromAxisAngle(new CANNON.Vec3(1, 0, 0), -Math.PI / 2); // Rotate to be horizontal
+      return body;
+    }
+
+    // Cannon's heightfield runs along local x and y with heights on z. Turned flat, local y points
+    // at world -z, so rows are read from the far end of the grid and the body sits there.
+    const { origin, cellSize, heights } = this.heightfield;
+    const rows = heights.length;
+    const columns = heights[0].length;
+    const matrix: number[][] = [];
+    for (let column = 0; column < columns; column++) {
+      matrix.push(heights.map((_, j) => heights[rows - 1 - j][column]));
+    }
+
+    body.addShape(new CANNON.Heightfield(matrix, { elementSize: cellSize }));
+    body.quaternion.setFromAxisAngle(new CANNON.Vec3(1, 0, 0), -Math.PI / 2);
+    body.position.set(origin[0], 0, origin[1] + (rows - 1) * cellSize);
+    return body;
+  }
+}
@@ -0,0 +1,96 @@
+import * as CANNON from 'cannon-es';
+import { LevelData, Vec3Data } from '../levels/LevelData';
+import { ShotSimulator } from './ShotSimulator';
+
+// Ten seconds is plenty for an aiming aid and keeps each prediction cheap
+const MAX_PREVIEW_STEPS = 600;
+
+// Keep every nth step as a point on the path
+const POINT_INTERVAL = 2;
+
+export interface TrajectoryLimits {
+  maxBounces: number; // Walls and obstacles the path follows the ball off
+  maxDistance: number; // Length of path to show, in world units
+}
+
+export interface PredictedPath {
+  points: Vec3Data[];
+  bouncePoints: Vec3Data[];
+  holed: boolean;
+}
+
+/**
+ * Plays a shot ahead of time in a scratch world with the level's bodies,
+ * to show where it is going before it is hit
+ */
+export class TrajectoryPredictor {
+  private simulator: ShotSimulator;
+  private bounceHandler?: (event: { body: CANNON.Body }) => void;
+
+  constructor(data: LevelData) {
+    this.simulator = new ShotSimulator(data);
+  }
+
+  /**
+   * courseTime lines the moving obstacles up with the live course
+   */
+  predict(start: Vec3Data, direction: Vec3Data, power: number, limits: TrajectoryLimits, courseTime: number = 0): PredictedPath {
+    const points: Vec3Data[] = [start];
+    const bouncePoints: Vec3Data[] = [];
+    const course = this.simulator.getCourse();
+    const ballBody = this.simulator.getBall().getBody();
+    let distance = 0;
+    let stopAtBounce = false;
+
+    // Cannon reports each new contact once, so every barrier hit is one bounce
+    this.detachBounceHandler();
+    this.bounceHandler = (event) => {
+      if (!course.isBarrier(event.body)) return;
+
+      const { x, y, z } = ballBody.position;
+      bouncePoints.push([x, y, z]);
+      if (bouncePoints.length > limits.maxBounces) {
+        stopAtBounce = true;
+      }
+    };
+    ballBody.addEventListener('collide', this.bounceHandler);
+
+    this.simulator.placeBall(start);
+    this.simulator.setCourseTime(courseTime);
+    let previous = start;
+    const result = this.simulator.shoot(direction, power, MAX_PREVIEW_STEPS, (position, step) => {
+      distance += Math.hypot(position.x - previous[0], position.z - previous[2]);
+      previous = [position.x, position.y, position.z];
+
+      if (stopAtBounce || distance >= limits.maxDistance) {
+        points.push([position.x, position.y, position.z]);
+        return true;
+      }
+      if (step % POINT_INTERVAL === 0) {
+        points.push([position.x, position.y, position.z]);
+      }
+      return false;
+    });
+
+    if (!stopAtBounce && distance < limits.maxDistance) {
+      // A ball lost to a hazard is put back elsewhere; the path ends where it went in
+      points.push(result.hazard ? result.hazard.position : result.finalPosition);
+    }
+    this.detachBounceHandler();
+
+    // The bounce past the limit only marks where the path ends
+    return { points, bouncePoints: bouncePoints.slice(0, limits.maxBounces), holed: result.holed };
+  }
+
+  dispose(): void {
+    this.detachBounceHandler();
+    this.simulator.dispose();
+  }
+
+  private detachBounceHandler(): void {
+    if (this.bounceHandler) {
+      this.simulator.getBall().getBody().removeEventListener('collide', this.bounceHandler);
+      this.bounceHandler = undefined;
+    }
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Type guards for checking JSON that comes from files, localStorage or the network.
+ * Validators take unknown and narrow it with these, so every field they read is checked.
+ */
+
+export type JsonObject = Record<string, unknown>;
+
+// A plain object, not null and not an array
+export function isRecord(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Finite, so NaN and Infinity from hand-edited files don't get through
+export function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+export function isInteger(value: unknown): value is number {
+  return Number.isInteger(value);
+}
+
+export function isOneOf<T>(values: readonly T[], value: unknown): value is T {
+  return (values as readonly unknown[]).includes(value);
+}